@@ -1,2 +1,76 @@
-export * from "./src/dataframe.ts";
-export * from "./src/series.ts";
+export { DataFrame } from "./src/dataframe.ts";
+export type {
+  Amended,
+  Assigned,
+  ClassChange,
+  ColumnTypeName,
+  CompareOptions,
+  Comparison,
+  ConcatOptions,
+  CorrelationOptions,
+  CovarianceOptions,
+  CutOptions,
+  DropDuplicatesOptions,
+  DropMissingOptions,
+  EqualsOptions,
+  Fill,
+  Header,
+  HistogramOptions,
+  KeepDuplicates,
+  MeltOptions,
+  MergeHow,
+  MergeOptions,
+  OutlierOptions,
+  Period,
+  PivotOptions,
+  Regression,
+  Renamed,
+  RowRecord,
+  RowRecords,
+  SampleOptions,
+  Schema,
+  SchemaDifference,
+  SeriesOf,
+  SortKey,
+  SplitOptions,
+  TypeOf,
+  ValueCountsOptions,
+  Violation,
+} from "./src/dataframe.ts";
+export {
+  BoolSeries,
+  CategorySeries,
+  DateSeries,
+  FloatSeries,
+  ObjectSeries,
+  Series,
+  TextSeries,
+} from "./src/series.ts";
+export type {
+  SeriesClasses,
+  SeriesInterface,
+  SeriesTypes,
+} from "./src/series.ts";
+export type { GroupBy } from "./src/groupby.ts";
+export type { Aggregation, Aggregations, Reducer } from "./src/groupby.ts";
+export type { CSVOptions, CSVReadOptions, CSVWriteOptions } from "./src/csv.ts";
+export type {
+  TargetOptions,
+  WindowFunction,
+  WindowOptions,
+  WindowReducer,
+} from "./src/window.ts";
+export { QueryError } from "./src/query.ts";
+export type { ArrowOptions } from "./src/arrow.ts";
+export { LazyFrame } from "./src/lazy.ts";
+export type { LazyGroupBy } from "./src/lazy.ts";
+export type { CorrelationMethod } from "./src/correlation.ts";
+export type { RenderOptions } from "./src/render.ts";
+export { LabelEncoder, OneHotEncoder, Scaler } from "./src/preprocess.ts";
+export type {
+  OneHotOptions,
+  Scaling,
+  ScalingFit,
+  Transform,
+} from "./src/preprocess.ts";
+export type { BinOptions } from "./src/bins.ts";
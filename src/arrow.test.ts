@@ -0,0 +1,65 @@
+import { assertEquals, assertInstanceOf, assertThrows } from "@std/assert";
+import { decodeArrow, encodeArrow } from "./arrow.ts";
+import {
+  autoSeries,
+  BoolSeries,
+  CategorySeries,
+  DateSeries,
+  ObjectSeries,
+  Series,
+  TextSeries,
+} from "./series.ts";
+
+/** Fixture written by reference implementation */
+function fixture(name: string): Uint8Array {
+  return Deno.readFileSync(new URL(`../testdata/${name}`, import.meta.url));
+}
+
+const expected = {
+  f: [1.5, undefined, -2],
+  i: [1, 2, undefined],
+  l: [10, undefined, -30],
+  s: ["a", undefined, "ünï"],
+  b: [true, false, undefined],
+  t: [new Date("2024-01-01T00:00:00Z"), undefined, new Date(0)],
+};
+
+Deno.test("Read Arrow stream and file", () => {
+  ["table.arrows", "table.arrow"].forEach((name) => {
+    const columns = decodeArrow(fixture(name));
+    assertEquals<unknown>(
+      Object.fromEntries(
+        Object.entries(columns).map(([n, column]) => [n, column.values]),
+      ),
+      expected,
+    );
+    assertInstanceOf(columns.i, Series);
+    assertInstanceOf(columns.s, TextSeries);
+    assertInstanceOf(columns.b, BoolSeries);
+    assertInstanceOf(columns.t, DateSeries);
+  });
+});
+
+Deno.test("Write Arrow stream and file", () => {
+  const columns = {
+    n: new Series([1.5, undefined, NaN]),
+    s: autoSeries(["a", undefined, ""]),
+    b: autoSeries([true, false, undefined]),
+    d: new DateSeries([new Date(0), undefined, new Date(864e5)]),
+    c: CategorySeries.from(["x", undefined, "x"]),
+  };
+  (["stream", "file"] as const).forEach((format) => {
+    const decoded = decodeArrow(encodeArrow(columns, [2, 1, 0], { format }));
+    assertEquals(decoded.n.values, [NaN, undefined, 1.5]);
+    assertEquals(decoded.s.values, ["", undefined, "a"]);
+    assertEquals<unknown>(decoded.b.values, [undefined, false, true]);
+    assertEquals(decoded.d.values, [new Date(864e5), undefined, new Date(0)]);
+    assertInstanceOf(decoded.c, TextSeries);
+    assertEquals(decoded.c.values, ["x", undefined, "x"]);
+  });
+});
+
+Deno.test("Unsupported Arrow columns", () => {
+  const objects = { o: new ObjectSeries<object>([{}]) };
+  assertThrows(() => encodeArrow(objects, [0]), Error, "cannot be exported");
+});
@@ -0,0 +1,668 @@
+import {
+  BoolSeries,
+  CategorySeries,
+  DateSeries,
+  Series,
+  TextSeries,
+} from "./series.ts";
+import type { SeriesClasses } from "./series.ts";
+
+/** Columns by name, all of same length */
+type Columns = Record<string, SeriesClasses>;
+
+/** Options for writing Arrow IPC */
+export type ArrowOptions = {
+  /** Stream of messages, or file with footer for random access. Default "stream". */
+  format?: "stream" | "file";
+};
+
+/** Signature at start and end of Arrow files */
+const MAGIC = "ARROW1";
+
+/** Arrow metadata version 5 */
+const V5 = 4;
+
+/** Marker before each message */
+const CONTINUATION = 0xffffffff;
+
+/** Message header types */
+const Header = { Schema: 1, DictionaryBatch: 2, RecordBatch: 3 } as const;
+
+/** Column types */
+const Type = {
+  Int: 2,
+  FloatingPoint: 3,
+  Utf8: 5,
+  Bool: 6,
+  Date: 8,
+  Timestamp: 10,
+  LargeUtf8: 20,
+} as const;
+
+/** Milliseconds per unit of Timestamp: second, milli, micro and nanosecond */
+const MILLISECONDS = [1000, 1, 1e-3, 1e-6];
+
+/** Scalar field of a flatbuffer table or struct */
+type Scalar = {
+  type: "bool" | "uint8" | "int16" | "int32" | "int64";
+  value: number;
+};
+
+/** Size in bytes of scalar types */
+const SIZES: Record<Scalar["type"], number> = {
+  bool: 1,
+  uint8: 1,
+  int16: 2,
+  int32: 4,
+  int64: 8,
+};
+
+/** Flatbuffer table, fields in order of schema */
+class Table {
+  constructor(public readonly fields: Array<Field | undefined>) {}
+}
+
+/** Flatbuffer vector of tables or strings */
+class Vector {
+  constructor(public readonly items: Array<Table | string>) {}
+}
+
+/** Flatbuffer vector of structs, each struct a sequence of 8 byte aligned scalars */
+class Structs {
+  constructor(public readonly items: Array<Scalar[]>) {}
+}
+
+type Field = Scalar | Table | Vector | Structs | string;
+
+const bool = (value: boolean): Scalar => ({ type: "bool", value: +value });
+const uint8 = (value: number): Scalar => ({ type: "uint8", value });
+const int16 = (value: number): Scalar => ({ type: "int16", value });
+const int32 = (value: number): Scalar => ({ type: "int32", value });
+const int64 = (value: number): Scalar => ({ type: "int64", value });
+
+/** Serialize tree of tables to a flatbuffer, each child after its parent */
+class Builder {
+  private bytes = new Uint8Array(256);
+  private view = new DataView(this.bytes.buffer);
+  private position = 0;
+
+  /** Flatbuffer with root table, length a multiple of 8 */
+  public finish(root: Table): Uint8Array {
+    this.link(this.reserve(4), root);
+    this.align(8);
+    return this.bytes.slice(0, this.position);
+  }
+
+  /** Position of count of zeroed bytes */
+  private reserve(count: number): number {
+    while (this.position + count > this.bytes.length) {
+      const bytes = new Uint8Array(this.bytes.length * 2);
+      bytes.set(this.bytes);
+      this.bytes = bytes;
+      this.view = new DataView(bytes.buffer);
+    }
+    const position = this.position;
+    this.position += count;
+    return position;
+  }
+
+  /** Pad with zeros to multiple of alignment */
+  private align(alignment: number, extra: number = 0): void {
+    while ((this.position + extra) % alignment) this.reserve(1);
+  }
+
+  private scalar(at: number, scalar: Scalar): void {
+    switch (scalar.type) {
+      case "int64":
+        return this.view.setBigInt64(at, BigInt(scalar.value), true);
+      case "int32":
+        return this.view.setInt32(at, scalar.value, true);
+      case "int16":
+        return this.view.setInt16(at, scalar.value, true);
+      default:
+        return this.view.setUint8(at, scalar.value);
+    }
+  }
+
+  /** Write child and point offset at position to it */
+  private link(at: number, child: Table | Vector | Structs | string): void {
+    const position: number = this.write(child);
+    this.view.setUint32(at, position - at, true);
+  }
+
+  private write(node: Table | Vector | Structs | string): number {
+    if (typeof node === "string") {
+      const text: Uint8Array = new TextEncoder().encode(node);
+      this.align(4);
+      const at: number = this.reserve(4 + text.length + 1);
+      this.view.setUint32(at, text.length, true);
+      this.bytes.set(text, at + 4);
+      return at;
+    }
+
+    if (node instanceof Vector) {
+      this.align(4);
+      const at: number = this.reserve(4 + 4 * node.items.length);
+      this.view.setUint32(at, node.items.length, true);
+      node.items.forEach((item, i) => this.link(at + 4 + 4 * i, item));
+      return at;
+    }
+
+    if (node instanceof Structs) {
+      this.align(8, 4);
+      const at: number = this.reserve(4);
+      this.view.setUint32(at, node.items.length, true);
+      node.items.flat().forEach((scalar) =>
+        this.scalar(this.reserve(SIZES[scalar.type]), scalar)
+      );
+      return at;
+    }
+
+    // Inline fields after offset to vtable, largest first for alignment
+    const size = (f: Field) =>
+      typeof f === "object" && "type" in f ? SIZES[f.type] : 4;
+    const offsets: number[] = node.fields.map(() => 0);
+    let inline = 4;
+    node.fields
+      .map((field, i) => ({ field, i }))
+      .filter(({ field }) => field !== undefined)
+      .sort((a, b) => size(b.field as Field) - size(a.field as Field))
+      .forEach(({ field, i }) => {
+        const bytes: number = size(field as Field);
+        inline = Math.ceil(inline / bytes) * bytes;
+        offsets[i] = inline;
+        inline += bytes;
+      });
+
+    // Vtable before table
+    this.align(2);
+    const vtable: number = this.reserve(4 + 2 * offsets.length);
+    this.view.setUint16(vtable, 4 + 2 * offsets.length, true);
+    this.view.setUint16(vtable + 2, inline, true);
+    offsets.forEach((o, i) => this.view.setUint16(vtable + 4 + 2 * i, o, true));
+
+    this.align(8);
+    const at: number = this.reserve(inline);
+    this.view.setInt32(at, at - vtable, true);
+    node.fields.forEach((field, i) => {
+      if (field === undefined) return;
+      if (typeof field === "object" && "type" in field) {
+        this.scalar(at + offsets[i], field);
+      } else this.link(at + offsets[i], field);
+    });
+    return at;
+  }
+}
+
+/** Access fields of a flatbuffer table */
+class Reader {
+  constructor(
+    private readonly view: DataView,
+    private readonly position: number,
+  ) {}
+
+  /** Root table of flatbuffer at position */
+  public static root(view: DataView, position: number): Reader {
+    return new Reader(view, position + view.getUint32(position, true));
+  }
+
+  /** Position of field, or 0 if absent */
+  private field(index: number): number {
+    const vtable: number = this.position -
+      this.view.getInt32(this.position, true);
+    const entry: number = 4 + 2 * index;
+    if (entry >= this.view.getUint16(vtable, true)) return 0;
+    const offset: number = this.view.getUint16(vtable + entry, true);
+    return offset ? this.position + offset : 0;
+  }
+
+  /** Position of target of offset field */
+  private target(index: number): number {
+    const at: number = this.field(index);
+    return at ? at + this.view.getUint32(at, true) : 0;
+  }
+
+  public uint8(index: number, fallback: number = 0): number {
+    const at: number = this.field(index);
+    return at ? this.view.getUint8(at) : fallback;
+  }
+
+  public int16(index: number, fallback: number = 0): number {
+    const at: number = this.field(index);
+    return at ? this.view.getInt16(at, true) : fallback;
+  }
+
+  public int32(index: number, fallback: number = 0): number {
+    const at: number = this.field(index);
+    return at ? this.view.getInt32(at, true) : fallback;
+  }
+
+  public int64(index: number): number {
+    const at: number = this.field(index);
+    return at ? Number(this.view.getBigInt64(at, true)) : 0;
+  }
+
+  public table(index: number): Reader | undefined {
+    const at: number = this.target(index);
+    return at ? new Reader(this.view, at) : undefined;
+  }
+
+  public string(index: number): string | undefined {
+    const at: number = this.target(index);
+    if (!at) return undefined;
+    const bytes = new Uint8Array(
+      this.view.buffer,
+      this.view.byteOffset + at + 4,
+      this.view.getUint32(at, true),
+    );
+    return new TextDecoder().decode(bytes);
+  }
+
+  public tables(index: number): Reader[] {
+    const at: number = this.target(index);
+    if (!at) return [];
+    return Array.from({ length: this.view.getUint32(at, true) }, (_, i) => {
+      const item: number = at + 4 + 4 * i;
+      return new Reader(this.view, item + this.view.getUint32(item, true));
+    });
+  }
+
+  /** Structs of 64 bit integers */
+  public structs(index: number, width: number): number[][] {
+    const at: number = this.target(index);
+    if (!at) return [];
+    return Array.from(
+      { length: this.view.getUint32(at, true) },
+      (_, i) =>
+        Array.from({ length: width }, (_, j) =>
+          Number(
+            this.view.getBigInt64(at + 4 + 8 * (i * width + j), true),
+          )),
+    );
+  }
+}
+
+/** Field, node and buffers of a column */
+type Encoded = { field: Table; nulls: number; buffers: Uint8Array[] };
+
+/** Bitmap with one bit per value, set if test is true */
+function bitmap<T>(values: Array<T>, test: (value: T) => boolean): Uint8Array {
+  const bits = new Uint8Array(Math.ceil(values.length / 8));
+  values.forEach((v, i) => {
+    if (test(v)) bits[i >> 3] |= 1 << (i & 7);
+  });
+  return bits;
+}
+
+/** Encode values of column as Arrow array */
+function encode(
+  name: string,
+  column: SeriesClasses,
+  values: unknown[],
+): Encoded {
+  const present = (v: unknown) =>
+    v !== undefined && !(v instanceof Date && isNaN(v.getTime()));
+  const nulls: number = values.filter((v) => !present(v)).length;
+  const validity: Uint8Array = nulls
+    ? bitmap(values, present)
+    : new Uint8Array();
+  const field = (type: number, table: Table): Table =>
+    new Table([
+      name,
+      bool(true),
+      uint8(type),
+      table,
+      undefined,
+      new Vector([]),
+    ]);
+
+  if (column instanceof Series) {
+    const data = Float64Array.from(values, (v) => (v ?? NaN) as number);
+    return {
+      field: field(Type.FloatingPoint, new Table([int16(2)])),
+      nulls,
+      buffers: [validity, new Uint8Array(data.buffer)],
+    };
+  }
+
+  if (column instanceof TextSeries || column instanceof CategorySeries) {
+    const encoder = new TextEncoder();
+    const texts: Uint8Array[] = values.map((v) =>
+      encoder.encode((v ?? "") as string)
+    );
+    const offsets = new Int32Array(values.length + 1);
+    texts.forEach((t, i) => offsets[i + 1] = offsets[i] + t.length);
+    const data = new Uint8Array(offsets[values.length]);
+    texts.forEach((t, i) => data.set(t, offsets[i]));
+    return {
+      field: field(Type.Utf8, new Table([])),
+      nulls,
+      buffers: [validity, new Uint8Array(offsets.buffer), data],
+    };
+  }
+
+  if (column instanceof BoolSeries) {
+    return {
+      field: field(Type.Bool, new Table([])),
+      nulls,
+      buffers: [validity, bitmap(values, (v) => v === true)],
+    };
+  }
+
+  if (column instanceof DateSeries) {
+    const data = BigInt64Array.from(
+      values,
+      (v) => present(v) ? BigInt((v as Date).getTime()) : 0n,
+    );
+    return {
+      field: field(Type.Timestamp, new Table([int16(1), "UTC"])),
+      nulls,
+      buffers: [validity, new Uint8Array(data.buffer)],
+    };
+  }
+
+  throw new Error(`Column ${name} cannot be exported to Arrow`);
+}
+
+/** Continuation marker, length and metadata of a message, followed by body */
+function message(header: number, table: Table, body: number): Uint8Array[] {
+  const metadata: Uint8Array = new Builder().finish(
+    new Table([int16(V5), uint8(header), table, int64(body)]),
+  );
+  const prefix = new Uint8Array(8);
+  const view = new DataView(prefix.buffer);
+  view.setUint32(0, CONTINUATION, true);
+  view.setInt32(4, metadata.length, true);
+  return [prefix, metadata];
+}
+
+/** Padding to multiple of 8 bytes */
+function padding(length: number): Uint8Array {
+  return new Uint8Array((8 - length % 8) % 8);
+}
+
+/** Join chunks of bytes */
+function join(chunks: Uint8Array[]): Uint8Array {
+  const buffer = new Uint8Array(chunks.reduce((s, c) => s + c.length, 0));
+  let offset = 0;
+  chunks.forEach((chunk) => {
+    buffer.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return buffer;
+}
+
+/** Encode columns as Arrow IPC stream or file, values in order of positions */
+export function encodeArrow(
+  columns: Columns,
+  positions: number[],
+  options: ArrowOptions = {},
+): Uint8Array {
+  const { format = "stream" } = options;
+  const encoded: Encoded[] = Object.entries(columns).map(([name, column]) =>
+    encode(name, column, positions.map((i) => column.values[i]))
+  );
+  const schema = new Table([
+    int16(0),
+    new Vector(encoded.map((e) => e.field)),
+  ]);
+
+  // Body of record batch, each buffer aligned to 8 bytes
+  const body: Uint8Array[] = [];
+  const buffers: Scalar[][] = [];
+  let offset = 0;
+  encoded.flatMap((e) => e.buffers).forEach((buffer) => {
+    buffers.push([int64(offset), int64(buffer.length)]);
+    body.push(buffer, padding(buffer.length));
+    offset += buffer.length + padding(buffer.length).length;
+  });
+  const batch = new Table([
+    int64(positions.length),
+    new Structs(encoded.map((e) => [int64(positions.length), int64(e.nulls)])),
+    new Structs(buffers),
+  ]);
+
+  const head: Uint8Array[] = format === "file"
+    ? [new TextEncoder().encode(MAGIC), new Uint8Array(2)]
+    : [];
+  const schemaMessage: Uint8Array = join(message(Header.Schema, schema, 0));
+  const batchMessage: Uint8Array[] = message(Header.RecordBatch, batch, offset);
+  const eos = new Uint8Array([0xff, 0xff, 0xff, 0xff, 0, 0, 0, 0]);
+  const stream: Uint8Array[] = [
+    ...head,
+    schemaMessage,
+    ...batchMessage,
+    ...body,
+    eos,
+  ];
+  if (format === "stream") return join(stream);
+
+  // Footer locates schema and record batch in file
+  const start: number = head.reduce((s, c) => s + c.length, 0) +
+    schemaMessage.length;
+  const footer: Uint8Array = new Builder().finish(
+    new Table([
+      int16(V5),
+      schema,
+      new Structs([]),
+      new Structs([[
+        int64(start),
+        int32(batchMessage[0].length + batchMessage[1].length),
+        int32(0),
+        int64(offset),
+      ]]),
+    ]),
+  );
+  const size = new Uint8Array(4);
+  new DataView(size.buffer).setInt32(0, footer.length, true);
+  return join([...stream, footer, size, new TextEncoder().encode(MAGIC)]);
+}
+
+/** Name and type of a column */
+type Schema = Array<{ name: string; typeId: number; type: Reader }>;
+
+/** Count of buffers for type */
+function bufferCount(typeId: number): number {
+  return typeId === Type.Utf8 || typeId === Type.LargeUtf8 ? 3 : 2;
+}
+
+/** Parse fields of schema */
+function schemaOf(table: Reader): Schema {
+  if (table.int16(0) !== 0) {
+    throw new Error("Big endian Arrow is not supported");
+  }
+  return table.tables(1).map((field) => {
+    const name: string = field.string(0) ?? "";
+    const typeId: number = field.uint8(2);
+    if (field.table(4)) {
+      throw new Error(`Dictionary encoded column ${name} is not supported`);
+    }
+    if (!Object.values(Type).includes(typeId as never)) {
+      throw new Error(`Column ${name} has unsupported Arrow type ${typeId}`);
+    }
+    return { name, typeId, type: field.table(3) as Reader };
+  });
+}
+
+/** Values of a column in a record batch */
+function decode(
+  view: DataView,
+  typeId: number,
+  type: Reader,
+  length: number,
+  buffers: number[][],
+): unknown[] {
+  const [validity, data, extra] = buffers;
+  const valid = (i: number) =>
+    validity[1] === 0 ||
+    (view.getUint8(validity[0] + (i >> 3)) & (1 << (i & 7))) !== 0;
+  const int64 = (i: number) => Number(view.getBigInt64(data[0] + 8 * i, true));
+  const read = (fn: (i: number) => unknown) =>
+    Array.from({ length }, (_, i) => valid(i) ? fn(i) : undefined);
+
+  switch (typeId) {
+    case Type.Int: {
+      const bits: number = type.int32(0);
+      const signed: boolean = type.uint8(1) === 1;
+      const at = (i: number) => data[0] + (bits / 8) * i;
+      if (bits === 8) {
+        return read((i) => signed ? view.getInt8(at(i)) : view.getUint8(at(i)));
+      }
+      if (bits === 16) {
+        return read((i) =>
+          signed ? view.getInt16(at(i), true) : view.getUint16(at(i), true)
+        );
+      }
+      if (bits === 32) {
+        return read((i) =>
+          signed ? view.getInt32(at(i), true) : view.getUint32(at(i), true)
+        );
+      }
+      return read((i) =>
+        Number(
+          signed
+            ? view.getBigInt64(at(i), true)
+            : view.getBigUint64(at(i), true),
+        )
+      );
+    }
+    case Type.FloatingPoint: {
+      const precision: number = type.int16(0);
+      if (precision === 1) {
+        return read((i) => view.getFloat32(data[0] + 4 * i, true));
+      }
+      if (precision !== 2) {
+        throw new Error("Half precision floats are not supported");
+      }
+      return read((i) => view.getFloat64(data[0] + 8 * i, true));
+    }
+    case Type.Utf8:
+    case Type.LargeUtf8: {
+      const width: number = typeId === Type.Utf8 ? 4 : 8;
+      const offset = (i: number) =>
+        width === 4
+          ? view.getInt32(data[0] + 4 * i, true)
+          : Number(view.getBigInt64(data[0] + 8 * i, true));
+      const decoder = new TextDecoder();
+      return read((i) =>
+        decoder.decode(
+          new Uint8Array(
+            view.buffer,
+            view.byteOffset + extra[0] + offset(i),
+            offset(i + 1) - offset(i),
+          ),
+        )
+      );
+    }
+    case Type.Bool:
+      return read((i) =>
+        (view.getUint8(data[0] + (i >> 3)) & (1 << (i & 7))) !== 0
+      );
+    case Type.Date:
+      return type.int16(0, 1) === 0
+        ? read((i) => new Date(view.getInt32(data[0] + 4 * i, true) * 864e5))
+        : read((i) => new Date(int64(i)));
+    default: {
+      const unit: number = MILLISECONDS[type.int16(0)];
+      return read((i) => new Date(int64(i) * unit));
+    }
+  }
+}
+
+/** Series of values of Arrow type */
+function series(typeId: number, values: unknown[]): SeriesClasses {
+  switch (typeId) {
+    case Type.Int:
+    case Type.FloatingPoint:
+      return new Series(values as number[]);
+    case Type.Utf8:
+    case Type.LargeUtf8:
+      return new TextSeries(values as string[]);
+    case Type.Bool:
+      return new BoolSeries(values as boolean[]);
+    default:
+      return new DateSeries(values as Date[]);
+  }
+}
+
+/** Metadata and position of body of message at position, undefined at end */
+function messageAt(
+  view: DataView,
+  position: number,
+): { message: Reader; body: number; end: number } | undefined {
+  if (position + 4 > view.byteLength) return undefined;
+  let length: number = view.getInt32(position, true);
+  let start: number = position + 4;
+  if (length === -1) {
+    if (position + 8 > view.byteLength) return undefined;
+    length = view.getInt32(position + 4, true);
+    start += 4;
+  }
+  if (length === 0) return undefined;
+  const message: Reader = Reader.root(view, start);
+  const body: number = start + length;
+  return { message, body, end: body + message.int64(3) };
+}
+
+/** Decode columns from Arrow IPC stream or file */
+export function decodeArrow(bytes: Uint8Array): Columns {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.length);
+  const magic: string = new TextDecoder().decode(bytes.subarray(0, 6));
+
+  // Messages with record batches
+  let schema: Schema | undefined;
+  const batches: Array<{ message: Reader; body: number }> = [];
+  if (magic === MAGIC) {
+    const size: number = view.getInt32(bytes.length - 10, true);
+    const footer: Reader = Reader.root(view, bytes.length - 10 - size);
+    schema = schemaOf(footer.table(1) as Reader);
+    // Blocks have offset, length of metadata and length of body
+    footer.structs(3, 3).forEach(([offset]) =>
+      batches.push(messageAt(view, offset) as { message: Reader; body: number })
+    );
+  } else {
+    let position = 0;
+    let next: ReturnType<typeof messageAt>;
+    while ((next = messageAt(view, position))) {
+      const header: number = next.message.uint8(1);
+      if (header === Header.Schema) {
+        schema = schemaOf(next.message.table(2) as Reader);
+      } else if (header === Header.RecordBatch) batches.push(next);
+      else if (header === Header.DictionaryBatch) {
+        throw new Error("Dictionary batches are not supported");
+      }
+      position = next.end;
+    }
+  }
+  if (!schema) throw new Error("Arrow data has no schema");
+
+  // Concatenate values of each column from all batches
+  const fields: Schema = schema;
+  const values: unknown[][] = fields.map(() => []);
+  batches.forEach(({ message, body }) => {
+    const batch = message.table(2) as Reader;
+    if (batch.table(3)) throw new Error("Compressed Arrow is not supported");
+    const nodes: number[][] = batch.structs(1, 2);
+    const buffers: number[][] = batch.structs(2, 2)
+      .map(([offset, length]) => [body + offset, length]);
+    let b = 0;
+    fields.forEach(({ typeId, type }, n) => {
+      const count: number = bufferCount(typeId);
+      const decoded = decode(
+        view,
+        typeId,
+        type,
+        nodes[n][0],
+        buffers.slice(b, b + count),
+      );
+      b += count;
+      values[n] = values[n].concat(decoded);
+    });
+  });
+
+  const columns: Columns = {};
+  fields.forEach(({ name, typeId }, n) =>
+    columns[name] = series(typeId, values[n])
+  );
+  return columns;
+}
@@ -0,0 +1,46 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { decodeColumns, encodeColumns } from "./binary.ts";
+import {
+  autoSeries,
+  BoolSeries,
+  CategorySeries,
+  DateSeries,
+  FloatSeries,
+  ObjectSeries,
+  Series,
+  TextSeries,
+} from "./series.ts";
+
+Deno.test("Round trip of series classes", () => {
+  const columns = {
+    n: new Series([1.5, undefined, NaN]),
+    f: FloatSeries.from([1, undefined, 3]),
+    s: autoSeries(["a", "", undefined]),
+    b: autoSeries([true, false, undefined]),
+    d: new DateSeries([new Date(0), undefined, new Date(NaN)]),
+    c: CategorySeries.from(["x", undefined, "y"], ["y", "x"]),
+    o: autoSeries([{ a: [1] }, undefined, null]),
+  };
+  assertEquals(columns.s.constructor, TextSeries);
+  assertEquals(columns.b.constructor, BoolSeries);
+  assertEquals(columns.o.constructor, ObjectSeries);
+  const decoded = decodeColumns(encodeColumns(columns, [0, 1, 2]));
+  assertEquals(Object.keys(decoded), Object.keys(columns));
+  Object.entries(columns).forEach(([name, column]) => {
+    assertEquals(decoded[name].constructor, column.constructor);
+    assertEquals(decoded[name].values, column.values);
+  });
+  assertEquals((decoded.c as CategorySeries).ordered, true);
+});
+
+Deno.test("Positions of rows", () => {
+  const columns = { n: new Series([1, 2, 3]) };
+  const decoded = decodeColumns(encodeColumns(columns, [2, 0]));
+  assertEquals(decoded.n.values, [3, 1]);
+});
+
+Deno.test("Invalid binary data", () => {
+  const bytes = encodeColumns({ n: new Series([1]) }, [0]);
+  assertThrows(() => decodeColumns(bytes.slice(0, 10)), Error, "end");
+  assertThrows(() => decodeColumns(new Uint8Array(8)), Error, "Not a binary");
+});
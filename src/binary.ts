@@ -0,0 +1,278 @@
+import {
+  BoolSeries,
+  CategorySeries,
+  DateSeries,
+  FloatSeries,
+  ObjectSeries,
+  Series,
+  TextSeries,
+} from "./series.ts";
+import type { SeriesClasses } from "./series.ts";
+
+/** File signature */
+const MAGIC = "DFRB";
+
+/** Version of layout */
+const VERSION = 1;
+
+/** Code of each series class in layout */
+const Kind = {
+  Series: 1,
+  Float: 2,
+  Text: 3,
+  Bool: 4,
+  Date: 5,
+  Category: 6,
+  Object: 7,
+} as const;
+
+/** Columns by name, all of same length */
+type Columns = Record<string, SeriesClasses>;
+
+/** Bitmap with one bit per value, set if test is true */
+function bitmap<T>(values: Array<T>, test: (value: T) => boolean): Uint8Array {
+  const bits = new Uint8Array(Math.ceil(values.length / 8));
+  values.forEach((v, i) => {
+    if (test(v)) bits[i >> 3] |= 1 << (i & 7);
+  });
+  return bits;
+}
+
+/** Is bit at index set */
+function bit(bits: Uint8Array, index: number): boolean {
+  return (bits[index >> 3] & (1 << (index & 7))) !== 0;
+}
+
+/** Append values to a growing list of chunks */
+class Writer {
+  private readonly chunks: Uint8Array[] = [];
+  private readonly encoder = new TextEncoder();
+
+  public bytes(bytes: Uint8Array): void {
+    this.chunks.push(bytes);
+  }
+
+  public uint8(value: number): void {
+    this.chunks.push(Uint8Array.of(value));
+  }
+
+  public uint32(value: number): void {
+    const bytes = new Uint8Array(4);
+    new DataView(bytes.buffer).setUint32(0, value, true);
+    this.chunks.push(bytes);
+  }
+
+  public float64(values: ArrayLike<number>): void {
+    const bytes = new Uint8Array(values.length * 8);
+    const view = new DataView(bytes.buffer);
+    for (let i = 0; i < values.length; i++) {
+      view.setFloat64(i * 8, values[i], true);
+    }
+    this.chunks.push(bytes);
+  }
+
+  public int32(values: Int32Array): void {
+    const bytes = new Uint8Array(values.length * 4);
+    const view = new DataView(bytes.buffer);
+    values.forEach((v, i) => view.setInt32(i * 4, v, true));
+    this.chunks.push(bytes);
+  }
+
+  /** Byte offsets of each string followed by all strings as UTF-8 */
+  public strings(values: string[]): void {
+    const encoded: Uint8Array[] = values.map((v) => this.encoder.encode(v));
+    let offset = 0;
+    this.uint32(values.length);
+    encoded.forEach((bytes) => this.uint32(offset += bytes.length));
+    encoded.forEach((bytes) => this.bytes(bytes));
+  }
+
+  /** All chunks joined */
+  public get buffer(): Uint8Array {
+    const size: number = this.chunks.reduce((s, c) => s + c.length, 0);
+    const buffer = new Uint8Array(size);
+    let offset = 0;
+    for (const chunk of this.chunks) {
+      buffer.set(chunk, offset);
+      offset += chunk.length;
+    }
+    return buffer;
+  }
+}
+
+/** Read values in sequence */
+class Reader {
+  private offset = 0;
+  private readonly view: DataView;
+  private readonly decoder = new TextDecoder();
+
+  constructor(private readonly buffer: Uint8Array) {
+    this.view = new DataView(buffer.buffer, buffer.byteOffset, buffer.length);
+  }
+
+  /** Confirm count of bytes remain */
+  private need(count: number): number {
+    if (this.offset + count > this.buffer.length) {
+      throw new Error("Unexpected end of binary data");
+    }
+    const offset = this.offset;
+    this.offset += count;
+    return offset;
+  }
+
+  public bytes(count: number): Uint8Array {
+    const offset = this.need(count);
+    return this.buffer.slice(offset, offset + count);
+  }
+
+  public uint8(): number {
+    return this.view.getUint8(this.need(1));
+  }
+
+  public uint32(): number {
+    return this.view.getUint32(this.need(4), true);
+  }
+
+  public float64(count: number): Float64Array {
+    const offset = this.need(count * 8);
+    const values = new Float64Array(count);
+    for (let i = 0; i < count; i++) {
+      values[i] = this.view.getFloat64(offset + i * 8, true);
+    }
+    return values;
+  }
+
+  public int32(count: number): Int32Array {
+    const offset = this.need(count * 4);
+    const values = new Int32Array(count);
+    for (let i = 0; i < count; i++) {
+      values[i] = this.view.getInt32(offset + i * 4, true);
+    }
+    return values;
+  }
+
+  public strings(): string[] {
+    const count: number = this.uint32();
+    const ends: number[] = Array.from({ length: count }, () => this.uint32());
+    const bytes: Uint8Array = this.bytes(ends.at(-1) ?? 0);
+    return ends.map((end, i) =>
+      this.decoder.decode(bytes.subarray(i ? ends[i - 1] : 0, end))
+    );
+  }
+
+  /** Have all bytes been read */
+  public get done(): boolean {
+    return this.offset === this.buffer.length;
+  }
+}
+
+/** Write series, values in order of positions */
+function write(
+  writer: Writer,
+  column: SeriesClasses,
+  positions: number[],
+): void {
+  const values = positions.map((i) => column.values[i]);
+  const present = (v: unknown) => v !== undefined;
+
+  if (column instanceof Series) {
+    writer.uint8(column instanceof FloatSeries ? Kind.Float : Kind.Series);
+    writer.bytes(bitmap(values, present));
+    writer.float64(values.map((v) => (v ?? NaN) as number));
+  } else if (column instanceof TextSeries) {
+    writer.uint8(Kind.Text);
+    writer.bytes(bitmap(values, present));
+    writer.strings(values.map((v) => v ?? "") as string[]);
+  } else if (column instanceof BoolSeries) {
+    writer.uint8(Kind.Bool);
+    writer.bytes(bitmap(values, present));
+    writer.bytes(bitmap(values, (v) => v === true));
+  } else if (column instanceof DateSeries) {
+    writer.uint8(Kind.Date);
+    writer.bytes(bitmap(values, present));
+    writer.float64(values.map((v) => v ? (v as Date).getTime() : NaN));
+  } else if (column instanceof CategorySeries) {
+    writer.uint8(Kind.Category);
+    writer.uint8(column.ordered ? 1 : 0);
+    writer.strings(column.categories);
+    writer.int32(Int32Array.from(positions, (i) => column.codes[i]));
+  } else {
+    writer.uint8(Kind.Object);
+    writer.bytes(bitmap(values, present));
+    writer.strings(values.map((v) => v === undefined ? "" : JSON.stringify(v)));
+  }
+}
+
+/** Read series of length */
+function read(reader: Reader, length: number): SeriesClasses {
+  const kind: number = reader.uint8();
+  if (kind === Kind.Category) {
+    const ordered: boolean = reader.uint8() === 1;
+    const categories: string[] = reader.strings();
+    return new CategorySeries(reader.int32(length), categories, ordered);
+  }
+
+  const mask: Uint8Array = reader.bytes(Math.ceil(length / 8));
+  const complete: boolean = Array.from({ length }, (_, i) => bit(mask, i))
+    .every((v) => v);
+  const masked = <T>(values: ArrayLike<T>): Array<T | undefined> =>
+    Array.from(values, (v, i) => bit(mask, i) ? v : undefined);
+
+  switch (kind) {
+    case Kind.Float:
+      return new FloatSeries(
+        reader.float64(length),
+        complete ? undefined : mask,
+      );
+    case Kind.Series:
+      return new Series(masked(reader.float64(length)));
+    case Kind.Text:
+      return new TextSeries(masked(reader.strings()) as string[]);
+    case Kind.Bool: {
+      const bits: Uint8Array = reader.bytes(Math.ceil(length / 8));
+      const values = Array.from({ length }, (_, i) => bit(bits, i));
+      return new BoolSeries(masked(values) as boolean[]);
+    }
+    case Kind.Date:
+      return new DateSeries(
+        masked(Array.from(reader.float64(length), (t) => new Date(t))),
+      );
+    case Kind.Object:
+      return new ObjectSeries<object>(
+        masked(reader.strings().map((text) => text && JSON.parse(text))),
+      );
+    default:
+      throw new Error(`Unknown series kind ${kind}`);
+  }
+}
+
+/** Encode columns to bytes, values in order of positions */
+export function encodeColumns(
+  columns: Columns,
+  positions: number[],
+): Uint8Array {
+  const writer = new Writer();
+  writer.bytes(new TextEncoder().encode(MAGIC));
+  writer.uint32(VERSION);
+  writer.uint32(positions.length);
+  writer.strings(Object.keys(columns));
+  Object.values(columns).forEach((column) => write(writer, column, positions));
+  return writer.buffer;
+}
+
+/** Decode columns from bytes */
+export function decodeColumns(bytes: Uint8Array): Columns {
+  const reader = new Reader(bytes);
+  if (new TextDecoder().decode(reader.bytes(MAGIC.length)) !== MAGIC) {
+    throw new Error("Not a binary dataframe");
+  }
+  const version: number = reader.uint32();
+  if (version !== VERSION) {
+    throw new Error(`Unsupported binary dataframe version ${version}`);
+  }
+  const length: number = reader.uint32();
+  const columns: Columns = {};
+  reader.strings().forEach((name) => columns[name] = read(reader, length));
+  if (!reader.done) throw new Error("Unexpected data after binary dataframe");
+  return columns;
+}
@@ -0,0 +1,47 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import {
+  bar,
+  equalWidth,
+  intervals,
+  locate,
+  quantileEdges,
+  validEdges,
+} from "./bins.ts";
+
+Deno.test("Edges of equal width", () => {
+  assertEquals(equalWidth([0.1, 0.4, 0.3], 3), [0.1, 0.2, 0.3, 0.4]);
+  assertEquals(equalWidth([5, 5], 2), [4, 5, 6]);
+  assertThrows(() => equalWidth([1, 2], 0));
+  assertThrows(() => equalWidth([], 2), Error, "No numbers");
+});
+
+Deno.test("Edges at quantiles", () => {
+  assertEquals(quantileEdges([1, 2, 3, 4, 5], 4), [1, 2, 3, 4, 5]);
+  assertEquals(quantileEdges([1, 2, 3, 4, 5], [0, 0.5, 1]), [1, 3, 5]);
+  assertThrows(() => quantileEdges([1, 1, 1, 2], 4), Error, "not unique");
+});
+
+Deno.test("Validate edges", () => {
+  assertEquals(validEdges([0, 1]), [0, 1]);
+  assertThrows(() => validEdges([0]));
+  assertThrows(() => validEdges([0, 2, 2]), Error, "not increasing");
+});
+
+Deno.test("Locate bin", () => {
+  const edges = [0, 10, 20, 30];
+  assertEquals(locate(10, edges, true, false), 0);
+  assertEquals(locate(10, edges, false, false), 1);
+  assertEquals(locate(25, edges, true, false), 2);
+  assertEquals(locate(0, edges, true, false), undefined);
+  assertEquals(locate(0, edges, true, true), 0);
+  assertEquals(locate(30, edges, false, false), undefined);
+  assertEquals(locate(30, edges, false, true), 2);
+  assertEquals(locate(31, edges, true, true), undefined);
+});
+
+Deno.test("Interval labels and bars", () => {
+  assertEquals(intervals([0, 1, 2], true), ["(0, 1]", "(1, 2]"]);
+  assertEquals(intervals([0, 1, 2], false), ["[0, 1)", "[1, 2)"]);
+  assertEquals(bar(5, 10, 4), "##");
+  assertEquals(bar(0, 0, 4), "");
+});
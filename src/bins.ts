@@ -0,0 +1,103 @@
+import { Series } from "./series.ts";
+
+/** Options for binning numbers */
+export type BinOptions = {
+  /** Name of each bin, default intervals such as "(0, 10]" */
+  labels?: string[];
+
+  /** Bins include right edge and exclude left edge, default true */
+  right?: boolean;
+};
+
+/** Edge rounded to hide floating point noise */
+function tidy(edge: number): number {
+  return Number(edge.toPrecision(12));
+}
+
+/** Throw unless edges are increasing and make at least one bin */
+export function validEdges(edges: number[]): number[] {
+  if (edges.length < 2 || edges.some((e, i) => i > 0 && !(e > edges[i - 1]))) {
+    throw new Error(`Bin edges ${edges.join(", ")} are not increasing`);
+  }
+  return edges;
+}
+
+/** Edges of count bins of equal width spanning numbers */
+export function equalWidth(numbers: number[], count: number): number[] {
+  if (!Number.isInteger(count) || count < 1) {
+    throw new Error(`Count of bins ${count} is not a positive integer`);
+  }
+  const s = new Series(numbers);
+  let [min, max] = [s.min, s.max];
+  if (min === undefined || max === undefined) {
+    throw new Error("No numbers to bin");
+  }
+  // A single value is centered in bins of width 1
+  if (min === max) [min, max] = [min - count / 2, max + count / 2];
+  return Array.from(
+    { length: count + 1 },
+    (_, i) => i === count ? max : tidy(min + (max - min) * i / count),
+  );
+}
+
+/** Edges at quantiles of numbers, either count of bins of equal size or list
+ * of quantiles from 0 to 1
+ */
+export function quantileEdges(
+  numbers: number[],
+  quantiles: number | number[],
+): number[] {
+  const qs: number[] = typeof quantiles === "number"
+    ? equalWidth([0, 1], quantiles)
+    : quantiles;
+  const s = new Series(numbers);
+  if (!s.count) throw new Error("No numbers to bin");
+  const edges: number[] = qs.map((q) => tidy(s.quantile(q) as number));
+  if (edges.some((e, i) => i > 0 && e === edges[i - 1])) {
+    throw new Error("Quantile edges are not unique");
+  }
+  return edges;
+}
+
+/** Position of bin containing number, undefined if outside edges.
+ * When inclusive, the outermost closed edge also belongs to the nearest bin.
+ */
+export function locate(
+  value: number,
+  edges: number[],
+  right: boolean,
+  inclusive: boolean,
+): number | undefined {
+  const last: number = edges.length - 1;
+  if (inclusive && value === (right ? edges[0] : edges[last])) {
+    return right ? 0 : last - 1;
+  }
+  if (
+    right
+      ? value <= edges[0] || value > edges[last]
+      : value < edges[0] || value >= edges[last]
+  ) {
+    return undefined;
+  }
+  // Smallest position of edge to the right of value
+  let low = 1;
+  let high: number = last;
+  while (low < high) {
+    const middle: number = (low + high) >> 1;
+    if (right ? value <= edges[middle] : value < edges[middle]) high = middle;
+    else low = middle + 1;
+  }
+  return low - 1;
+}
+
+/** Name of each bin, such as "(0, 10]" or "[0, 10)" */
+export function intervals(edges: number[], right: boolean): string[] {
+  return edges.slice(1).map((end, i) =>
+    right ? `(${edges[i]}, ${end}]` : `[${edges[i]}, ${end})`
+  );
+}
+
+/** Bar of characters with length proportional to value of largest value */
+export function bar(value: number, largest: number, width: number): string {
+  return "#".repeat(largest > 0 ? Math.round(width * value / largest) : 0);
+}
@@ -0,0 +1,39 @@
+import { assertAlmostEquals, assertEquals } from "@std/assert";
+import { correlate, covariance, leastSquares, ranks } from "./correlation.ts";
+
+Deno.test("Ranks with ties", () => {
+  assertEquals(ranks([10, 30, 20, 20]), [1, 4, 2.5, 2.5]);
+});
+
+Deno.test("Correlation methods", () => {
+  const x = [1, 2, 3, 4];
+  const y = [1, 3, 2, 4];
+  assertAlmostEquals(correlate(x, y) as number, 0.8);
+  assertAlmostEquals(correlate(x, [1, 10, 5, 100], "spearman") as number, 0.8);
+  assertAlmostEquals(correlate(x, y, "kendall") as number, 2 / 3);
+  assertAlmostEquals(
+    correlate([1, 1, 2, 3], [1, 2, 2, 3], "kendall") as number,
+    0.8,
+  );
+  assertEquals(correlate(x, [2, 2, 2, 2]), undefined);
+  assertEquals(correlate([1], [1]), undefined);
+});
+
+Deno.test("Covariance", () => {
+  assertEquals(covariance([1, 2, 3], [2, 4, 6]), 2);
+  assertEquals(covariance([1], [1]), undefined);
+});
+
+Deno.test("Least squares", () => {
+  const [b0, b1] = leastSquares([1, 3, 5, 7], [[0], [1], [2], [3]]);
+  assertAlmostEquals(b0, 1);
+  assertAlmostEquals(b1, 2);
+});
+
+Deno.test("Correlation within range", () => {
+  for (let n = 0; n < 200; n++) {
+    const x = [n % 7, (n * 3) % 11, (n * 5) % 13];
+    const r = correlate(x, x.map((v) => v * 3.1 + 0.7));
+    if (r !== undefined) assertEquals(Math.abs(r) <= 1, true);
+  }
+});
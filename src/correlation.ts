@@ -0,0 +1,115 @@
+import { avg, correlation } from "@sauber/statistics";
+
+/** Method of correlation */
+export type CorrelationMethod = "pearson" | "spearman" | "kendall";
+
+/** Does list have at least two different values */
+function varies(values: number[]): boolean {
+  return values.some((v) => v !== values[0]);
+}
+
+/** Rank of each value starting at 1, ties have average rank */
+export function ranks(values: number[]): number[] {
+  const order: number[] = values.map((_, i) => i)
+    .sort((i, j) => values[i] - values[j]);
+  const result: number[] = Array(values.length);
+  for (let start = 0; start < order.length;) {
+    let end: number = start + 1;
+    while (end < order.length && values[order[end]] === values[order[start]]) {
+      end++;
+    }
+    for (let k = start; k < end; k++) result[order[k]] = (start + end + 1) / 2;
+    start = end;
+  }
+  return result;
+}
+
+/** Kendall rank correlation, tau-b adjusted for ties */
+function kendall(x: number[], y: number[]): number {
+  let concordant = 0;
+  let discordant = 0;
+  // Pairs tied in only one of the lists
+  let onlyX = 0;
+  let onlyY = 0;
+  for (let i = 0; i < x.length; i++) {
+    for (let j = i + 1; j < x.length; j++) {
+      const dx: number = Math.sign(x[i] - x[j]);
+      const dy: number = Math.sign(y[i] - y[j]);
+      if (dx * dy > 0) concordant++;
+      else if (dx * dy < 0) discordant++;
+      else if (dx === 0 && dy !== 0) onlyX++;
+      else if (dy === 0 && dx !== 0) onlyY++;
+    }
+  }
+  const untied: number = concordant + discordant;
+  return (concordant - discordant) /
+    Math.sqrt((untied + onlyY) * (untied + onlyX));
+}
+
+/** Correlation of two lists of numbers, undefined if either list is constant */
+export function correlate(
+  x: number[],
+  y: number[],
+  method: CorrelationMethod = "pearson",
+): number | undefined {
+  if (x.length < 2 || !varies(x) || !varies(y)) return undefined;
+  // Rounding errors can otherwise exceed range of -1 to 1
+  const bounded = (r: number) => Math.min(1, Math.max(-1, r));
+  switch (method) {
+    case "pearson":
+      return bounded(correlation(x, y));
+    case "spearman":
+      return bounded(correlation(ranks(x), ranks(y)));
+    case "kendall":
+      return kendall(x, y);
+    default:
+      throw new Error(`Unknown correlation method ${method}`);
+  }
+}
+
+/** Sample covariance of two lists of numbers */
+export function covariance(x: number[], y: number[]): number | undefined {
+  if (x.length < 2) return undefined;
+  const mx: number = avg(x);
+  const my: number = avg(y);
+  const sum: number = x.reduce((s, v, i) => s + (v - mx) * (y[i] - my), 0);
+  return sum / (x.length - 1);
+}
+
+/** Coefficients minimizing squared error of y = b0 + b1 * x1 + ... + bk * xk.
+ * Each row of xs has the explanatory values of one observation.
+ */
+export function leastSquares(y: number[], xs: number[][]): number[] {
+  // Normal equations, with column of ones for intercept
+  const rows: number[][] = xs.map((x) => [1, ...x]);
+  const width: number = rows[0]?.length ?? 1;
+  const system: number[][] = Array.from({ length: width }, (_, i) => [
+    ...Array.from(
+      { length: width },
+      (_, j) => rows.reduce((s, r) => s + r[i] * r[j], 0),
+    ),
+    rows.reduce((s, r, k) => s + r[i] * y[k], 0),
+  ]);
+
+  // Gaussian elimination with partial pivoting
+  for (let col = 0; col < width; col++) {
+    let pivot: number = col;
+    for (let row = col + 1; row < width; row++) {
+      if (Math.abs(system[row][col]) > Math.abs(system[pivot][col])) {
+        pivot = row;
+      }
+    }
+    if (Math.abs(system[pivot][col]) < 1e-12) {
+      throw new Error("Explanatory columns are collinear or constant");
+    }
+    [system[col], system[pivot]] = [system[pivot], system[col]];
+    for (let row = 0; row < width; row++) {
+      if (row === col) continue;
+      const factor: number = system[row][col] / system[col][col];
+      for (let k = col; k <= width; k++) {
+        system[row][k] -= factor * system[col][k];
+      }
+    }
+  }
+  return system.map((row, i) => row[width] / row[i]);
+}
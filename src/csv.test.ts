@@ -0,0 +1,58 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { convert, formatCSV, inferType, parseCSV } from "./csv.ts";
+
+Deno.test("Parse fields", () => {
+  assertEquals(parseCSV("a,b\n1,2\n"), [["a", "b"], ["1", "2"]]);
+  assertEquals(parseCSV("a;b\r\n1;2", ";"), [["a", "b"], ["1", "2"]]);
+});
+
+Deno.test("Invalid delimiters", () => {
+  ["", '"', "\n", ";\r"].forEach((delimiter) => {
+    assertThrows(() => parseCSV("a,b\n", delimiter), Error, "Delimiter");
+    assertThrows(() => formatCSV([["a"]], delimiter), Error, "Delimiter");
+  });
+});
+
+Deno.test("Parse empty fields", () => {
+  assertEquals(parseCSV('a,,""\n'), [["a", undefined, ""]]);
+});
+
+Deno.test("Parse quoted fields", () => {
+  const text = '"a, ""b""","line1\nline2"\n';
+  assertEquals(parseCSV(text), [['a, "b"', "line1\nline2"]]);
+});
+
+Deno.test("Infer types", () => {
+  assertEquals(inferType(["1", undefined, "2.5e3"]), "number");
+  assertEquals(inferType(["1", "x"]), "string");
+  assertEquals(inferType(["true", "FALSE"]), "bool");
+  assertEquals(inferType([undefined]), "string");
+  assertEquals(inferType(["2024-01-31", "2024-02-01T10:00Z"]), "date");
+  assertEquals(inferType(["2024-01-31", "2024-13-45"]), "string");
+  assertEquals(inferType(["2024-02-30"]), "string");
+});
+
+Deno.test("Convert fields", () => {
+  assertEquals(convert(["1", undefined], "number", "c"), [1, undefined]);
+  assertEquals(convert(["true", "false"], "bool", "c"), [true, false]);
+  assertEquals(convert(['{"a":1}'], "object", "c"), [{ a: 1 }]);
+  assertEquals(convert(["2024-01-31"], "date", "c"), [new Date("2024-01-31")]);
+  assertThrows(
+    () => convert(['{"a":1}', "{a"], "object", "c"),
+    Error,
+    "Row 1 of column c is not JSON",
+  );
+});
+
+Deno.test("Format rows", () => {
+  const text = formatCSV([["a", "b"], [1, undefined], ['x,"y"', ""]]);
+  assertEquals(text, 'a,b\n1,\n"x,""y""",""\n');
+});
+
+Deno.test("Format missing values as empty fields", () => {
+  const text = formatCSV([["n", "d"], [NaN, new Date("invalid")], [
+    3,
+    undefined,
+  ]]);
+  assertEquals(text, "n,d\n,\n3,\n");
+});
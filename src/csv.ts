@@ -0,0 +1,168 @@
+import type { ColumnTypeName } from "./dataframe.ts";
+import { isoDate, missing, parseDate } from "./series.ts";
+import type { SeriesTypes } from "./series.ts";
+
+/** A parsed field. Empty unquoted fields are undefined. */
+type Cell = string | undefined;
+
+/** Options for both parsing and formatting CSV */
+export type CSVOptions = {
+  /** Field separator, default "," */
+  delimiter?: string;
+
+  /** First line has names of columns, default true */
+  header?: boolean;
+};
+
+/** Options for parsing CSV */
+export type CSVReadOptions = CSVOptions & {
+  /** Names of columns, overrides or replaces header line */
+  names?: string[];
+
+  /** Type of named columns, otherwise inferred from all values in column */
+  types?: Record<string, ColumnTypeName>;
+};
+
+/** Options for formatting CSV */
+export type CSVWriteOptions = CSVOptions & {
+  /** Line separator, default "\n" */
+  newline?: string;
+};
+
+const NUMBER = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+const BOOL = /^(true|false)$/i;
+
+/** Throw unless delimiter can separate fields */
+function checkDelimiter(delimiter: string): void {
+  if (delimiter === "" || /["\r\n]/.test(delimiter)) {
+    throw new Error(`Delimiter ${JSON.stringify(delimiter)} is not valid`);
+  }
+}
+
+/** Split text into rows of fields */
+export function parseCSV(text: string, delimiter: string = ","): Cell[][] {
+  checkDelimiter(delimiter);
+  const rows: Cell[][] = [];
+  let row: Cell[] = [];
+  let field = "";
+  let quoted = false;
+  let i = 0;
+
+  const endField = () => {
+    row.push(field === "" && !quoted ? undefined : field);
+    field = "";
+    quoted = false;
+  };
+
+  const endRow = () => {
+    endField();
+    rows.push(row);
+    row = [];
+  };
+
+  while (i < text.length) {
+    const char = text[i];
+    if (char === '"' && field === "" && !quoted) {
+      // Quoted field, read until closing quote
+      quoted = true;
+      i++;
+      while (i < text.length) {
+        if (text[i] === '"') {
+          if (text[i + 1] === '"') {
+            field += '"';
+            i += 2;
+          } else {
+            i++;
+            break;
+          }
+        } else field += text[i++];
+      }
+    } else if (text.startsWith(delimiter, i)) {
+      endField();
+      i += delimiter.length;
+    } else if (char === "\r" && text[i + 1] === "\n") {
+      endRow();
+      i += 2;
+    } else if (char === "\n" || char === "\r") {
+      endRow();
+      i++;
+    } else {
+      field += char;
+      i++;
+    }
+  }
+
+  // Last line may lack line terminator
+  if (field !== "" || quoted || row.length) endRow();
+
+  return rows;
+}
+
+/** Most specific type matching all fields in column */
+export function inferType(cells: Cell[]): ColumnTypeName {
+  const present = cells.filter((c) => c !== undefined) as string[];
+  if (!present.length) return "string";
+  if (present.every((c) => NUMBER.test(c.trim()))) return "number";
+  if (present.every((c) => BOOL.test(c.trim()))) return "bool";
+  if (present.every((c) => isoDate(c.trim()))) return "date";
+  return "string";
+}
+
+/** Convert fields of named column to values of type */
+export function convert(
+  cells: Cell[],
+  type: ColumnTypeName,
+  name: string,
+): SeriesTypes[] {
+  return cells.map((cell, row) => {
+    if (cell === undefined) return undefined;
+    switch (type) {
+      case "number":
+        return Number(cell);
+      case "bool":
+        return /^(true|1)$/i.test(cell.trim());
+      case "date":
+        return parseDate(cell.trim());
+      case "object":
+        try {
+          return JSON.parse(cell);
+        } catch (error) {
+          const reason: string = (error as Error).message;
+          throw new Error(
+            `Row ${row} of column ${name} is not JSON: ${reason}`,
+          );
+        }
+      default:
+        return cell;
+    }
+  });
+}
+
+/** Text representation of a value, quoted if necessary */
+function field(value: SeriesTypes, delimiter: string): string {
+  if (missing(value)) return "";
+  const text = value instanceof Date
+    ? value.toISOString()
+    : typeof value === "object"
+    ? JSON.stringify(value)
+    : String(value);
+  if (
+    text === "" || text.includes(delimiter) || /["\r\n]/.test(text)
+  ) {
+    return '"' + text.replaceAll('"', '""') + '"';
+  }
+  return text;
+}
+
+/** Join rows of values to text */
+export function formatCSV(
+  rows: SeriesTypes[][],
+  delimiter: string = ",",
+  newline: string = "\n",
+): string {
+  checkDelimiter(delimiter);
+  return rows
+    .map((row) => row.map((value) => field(value, delimiter)).join(delimiter))
+    .map((line) => line + newline)
+    .join("");
+}
@@ -0,0 +1,70 @@
+import { DataFrame } from "./dataframe.ts";
+
+const rows = 100000;
+const records = Array.from(
+  Array(rows).keys(),
+  (i) => ({ a: i % 7 ? i : undefined, b: Math.sin(i) }),
+);
+const plain: DataFrame = DataFrame.fromRecords(records);
+const typed: DataFrame = plain.typed();
+
+for (
+  const [group, df] of [["Array", plain], ["Float64Array", typed]] as const
+) {
+  Deno.bench(group, { group: "scale", baseline: df === plain }, () => {
+    df.scale("a", 2);
+  });
+  Deno.bench(group, { group: "add", baseline: df === plain }, () => {
+    df.add("a", 2);
+  });
+  Deno.bench(group, { group: "log", baseline: df === plain }, () => {
+    df.log("a");
+  });
+  Deno.bench(group, { group: "digits", baseline: df === plain }, () => {
+    df.digits(2);
+  });
+  Deno.bench(group, { group: "distribute", baseline: df === plain }, () => {
+    df.distribute("a");
+  });
+  Deno.bench(group, { group: "outlier", baseline: df === plain }, () => {
+    df.outlier(2);
+  });
+  Deno.bench(
+    group,
+    { group: "correlationMatrix", baseline: df === plain },
+    () => {
+      df.include(["b"]).correlationMatrix(df.include(["b"]));
+    },
+  );
+}
+
+Deno.bench("amend", { group: "combine columns", baseline: true }, () => {
+  typed.amend("c", (r) => (r.a as number) * (r.b as number) - 1);
+});
+Deno.bench("col and assign", { group: "combine columns" }, () => {
+  typed.assign({ c: typed.num("a").mul(typed.num("b")).sub(1) });
+});
+
+const labels = ["red", "green", "blue", "yellow", "cyan", "magenta"];
+const text: DataFrame = DataFrame.fromRecords(
+  records.map((r, i) => ({ ...r, c: labels[i % labels.length] })),
+);
+const coded: DataFrame = text.categorize("c");
+const names: DataFrame = DataFrame.fromRecords(
+  labels.map((c) => ({ c, upper: c.toUpperCase() })),
+);
+
+for (
+  const [group, df, lookup] of [
+    ["TextSeries", text, names],
+    ["CategorySeries", coded, names.categorize("c")],
+  ] as const
+) {
+  const keys = df.include(["c"]);
+  Deno.bench(group, { group: "groupBy", baseline: df === text }, () => {
+    df.groupBy(["c"]).agg({ b: "sum" });
+  });
+  Deno.bench(group, { group: "merge", baseline: df === text }, () => {
+    keys.merge(lookup, { on: ["c"] });
+  });
+}
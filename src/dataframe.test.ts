@@ -1,10 +1,25 @@
 import {
+  assert,
+  assertAlmostEquals,
   assertEquals,
+  assertFalse,
   assertGreaterOrEqual,
   assertInstanceOf,
   assertLessOrEqual,
+  assertStringIncludes,
+  assertThrows,
 } from "@std/assert";
 import { DataFrame } from "./dataframe.ts";
+import type { RowRecord } from "./dataframe.ts";
+import {
+  BoolSeries,
+  CategorySeries,
+  DateSeries,
+  FloatSeries,
+  ObjectSeries,
+  Series,
+  TextSeries,
+} from "./series.ts";
 import type { SeriesTypes } from "./series.ts";
 
 const testdata = [
@@ -46,14 +61,14 @@ Deno.test("Grid", () => {
 
 Deno.test("Include Columns", () => {
   const df = DataFrame.fromRecords(testdata);
-  const cols = ["s", "n"];
+  const cols: Array<"s" | "n"> = ["s", "n"];
   const sel = df.include(cols);
   assertEquals(sel.names, cols);
 });
 
 Deno.test("Exclude columns", () => {
   const df = DataFrame.fromRecords(testdata);
-  const cols = ["s", "n"];
+  const cols: Array<"s" | "n"> = ["s", "n"];
   const sel = df.exclude(cols);
   assertEquals(sel.names, ["b", "o"]);
 });
@@ -86,7 +101,9 @@ Deno.test("Correlation Matrix", () => {
 
   // Confirm output in range -1 to +1
   ["o1", "o2"].forEach((name) =>
-    c.values<number>(name).forEach((v) => {
+    c.values<number | undefined>(name).forEach((v) => {
+      // Correlation is undefined for columns with same value in all rows
+      if (v === undefined) return;
       assertGreaterOrEqual(v, -1);
       assertLessOrEqual(v, 1);
     })
@@ -116,6 +133,62 @@ Deno.test("Shuffle Rows", () => {
   const df = DataFrame.fromRecords(testdata);
   const ran = df.shuffle;
   assertEquals(ran.length, 2);
+  assertEquals(df.shuffled(1).records, df.shuffled(1).records);
+});
+
+Deno.test("Sample rows", () => {
+  const df = DataFrame.fromRecords(
+    Array.from({ length: 10 }, (_, i) => ({ i, w: i < 5 ? 0 : 1 })),
+  );
+  const sample = df.sample({ n: 4, seed: 1 });
+  assertEquals(sample.length, 4);
+  assertEquals(new Set(sample.values("i")).size, 4);
+  assertEquals(df.sample({ n: 4, seed: 1 }).records, sample.records);
+  assertEquals(df.sample({ fraction: 0.5 }).length, 5);
+  assertEquals(
+    df.sample({ n: 5, weights: "w", seed: 2 }).values("i").toSorted(),
+    [5, 6, 7, 8, 9],
+  );
+  const replaced = df.sample({ n: 30, replace: true, seed: 3 });
+  assertEquals(replaced.length, 30);
+  assertEquals(
+    replaced.amend("j", (r) => r.i + 1).values("j")[0],
+    replaced.values("i")[0] + 1,
+  );
+  assertThrows(() => df.sample({ n: 11 }));
+});
+
+Deno.test("Train and test split", () => {
+  const df = DataFrame.fromRecords(
+    Array.from({ length: 20 }, (_, i) => ({ i, c: i < 5 ? "x" : "y" })),
+  );
+  const [train, test] = df.trainTestSplit(0.8, { seed: 1, stratify: "c" });
+  assertEquals(train.length, 16);
+  assertEquals(test.length, 4);
+  assertEquals(train.values("c").filter((c) => c === "x").length, 4);
+  assertEquals(test.values("c"), ["x", "y", "y", "y"]);
+  assertEquals(
+    [...train.values("i"), ...test.values("i")].toSorted((a, b) => a - b),
+    df.values("i"),
+  );
+  const [again] = df.trainTestSplit(0.8, { seed: 1, stratify: "c" });
+  assertEquals(again.values("i"), train.values("i"));
+});
+
+Deno.test("K-fold split", () => {
+  const df = DataFrame.fromRecords(
+    Array.from({ length: 10 }, (_, i) => ({ i, c: i % 2 })),
+  );
+  const folds = df.kFold(5, { seed: 4, stratify: "c" });
+  assertEquals(folds.length, 5);
+  const tested: number[] = [];
+  folds.forEach(([train, test]) => {
+    assertEquals(train.length, 8);
+    assertEquals(test.values("c").toSorted(), [0, 1]);
+    tested.push(...test.values("i"));
+  });
+  assertEquals(tested.toSorted((a, b) => a - b), df.values("i"));
+  assertThrows(() => df.kFold(11));
 });
 
 Deno.test("Reduce Rows", () => {
@@ -178,6 +251,127 @@ Deno.test("Outlier Detection", () => {
   const dr = df.outlier(2);
   assertEquals(df.values("n"), values);
   assertEquals(dr.values("n"), values.slice(0, -1));
+  const iqr = df.outlier(1.5, { method: "iqr" });
+  assertEquals(iqr.values("n"), values.slice(0, -1));
+  assertEquals(df.reverse.outlier(0, { method: "iqr" }).length, 5);
+});
+
+Deno.test("Compare dataframes", () => {
+  const before = DataFrame.fromRecords([
+    { id: 1, n: 1.0, s: "a", o: { x: 1 } },
+    { id: 2, n: 2.0, s: "b", o: { x: 2 } },
+    { id: 3, n: 3.0, s: "c", o: { x: 3 } },
+  ]);
+  const after = DataFrame.fromRecords([
+    { id: 3, n: 3.0, s: "C", o: { x: 3 }, t: true },
+    { id: 1, n: 1.05, s: "a", o: { x: 1 }, t: false },
+    { id: 4, n: 4.0, s: "d", o: { x: 4 }, t: true },
+  ]).typed(["n"]);
+
+  const diff = before.compare(after, { key: ["id"], tolerance: 0.1 });
+  assertEquals(diff.added.values("id"), [4]);
+  assertEquals(diff.removed.values("id"), [2]);
+  assertEquals(diff.changed.values("id"), [3]);
+  assertEquals(diff.cells.records, [{ id: 3, s_old: "c", s_new: "C" }]);
+  assertEquals(diff.schema, {
+    added: ["t"],
+    removed: [],
+    changed: [{ name: "n", before: "Series", after: "FloatSeries" }],
+  });
+
+  const strict = before.compare(after.reverse, { key: ["id"] });
+  assertEquals(strict.cells.names, ["id", "n_old", "n_new", "s_old", "s_new"]);
+  assertEquals(strict.cells.values("n_new"), [1.05, undefined]);
+
+  const positional = before.compare(before.reverse);
+  assertEquals(positional.cells.values("row"), [0, 2]);
+  assertEquals(positional.added.length, 0);
+  assertThrows(
+    () => before.compare(before.append([{ id: 1 }]), { key: ["id"] }),
+    Error,
+    "not unique",
+  );
+});
+
+Deno.test("Equal dataframes", () => {
+  const df = DataFrame.fromRecords([
+    { n: 1, o: { a: 1, b: 2 } },
+    { n: NaN, o: undefined },
+  ]);
+  const same = DataFrame.fromRecords([
+    { o: { b: 2, a: 1 }, n: 1 },
+    { o: undefined, n: undefined },
+  ]).typed();
+  assert(df.equals(same));
+  assertFalse(df.equals(same.reverse));
+  assert(df.equals(same.reverse, { ignoreOrder: true }));
+  assertFalse(df.equals(df.add("n", 0.001)));
+  assert(df.equals(df.add("n", 0.001), { tolerance: 0.01 }));
+  assertFalse(df.equals(df.exclude(["o"])));
+  assertFalse(df.equals(df.slice(0, 1)));
+});
+
+Deno.test("Bins of numbers", () => {
+  const df = DataFrame.fromRecords(
+    [4, 1, 7, undefined, 10, 2].map((n) => ({ n })),
+  );
+  const cut = df.cut("n", [0, 5, 10], { labels: ["low", "high"] });
+  assertInstanceOf(cut.column("n_bin"), CategorySeries);
+  assertEquals(cut.values("n_bin"), [
+    "low",
+    "low",
+    "high",
+    undefined,
+    "high",
+    "low",
+  ]);
+  assertEquals(
+    df.cut("n", 3, { right: false, target: "b" }).values("b"),
+    ["[4, 7)", "[1, 4)", "[7, 10)", undefined, "[7, 10)", "[1, 4)"],
+  );
+  assertEquals(df.cut("n", [1, 5]).values("n_bin"), [
+    "(1, 5]",
+    undefined,
+    undefined,
+    undefined,
+    undefined,
+    "(1, 5]",
+  ]);
+  assertEquals(df.reverse.qcut("n", 2).values("n_bin"), [
+    "(1, 4]",
+    "(4, 10]",
+    undefined,
+    "(4, 10]",
+    "(1, 4]",
+    "(1, 4]",
+  ]);
+  assertEquals(df.qcut("n", 2).sort("n_bin").values("n"), [
+    4,
+    1,
+    2,
+    7,
+    10,
+    undefined,
+  ]);
+  assertThrows(
+    () => df.cut("n", [0, 5], { labels: ["a", "b"] }),
+    Error,
+    "labels",
+  );
+  assertThrows(() => df.cut("x" as "n", 2), Error, "does not exist");
+});
+
+Deno.test("Histogram", () => {
+  const df = DataFrame.fromRecords(
+    [1, 2, 2, 3, 4, 4, 4, 5].map((n) => ({ n })),
+  );
+  const h = df.histogram("n", 4, { width: 6 });
+  assertEquals(h.names, ["start", "end", "count", "bar"]);
+  assertEquals(h.values("start"), [1, 2, 3, 4]);
+  assertEquals(h.values("count"), [1, 2, 1, 4]);
+  assertEquals(h.values("bar"), ["##", "###", "##", "######"]);
+  assertEquals(df.histogram("n", [0, 3, 10]).values("count"), [3, 5]);
+  assertStringIncludes(h.toString(), "######");
 });
 
 Deno.test("Left Join", () => {
@@ -194,3 +388,725 @@ Deno.test("Create from different type of records", () => {
   assertEquals(df.values<number>("n"), [1, undefined]);
   assertEquals(df.values<string>("bar"), [undefined, "foo"]);
 });
+
+Deno.test("Import and export CSV", () => {
+  const text = 'n,s,b\n1,a,true\n,"b\nc",false\n';
+  const df = DataFrame.fromCSV(text);
+  assertEquals(df.records, [
+    { n: 1, s: "a", b: true },
+    { n: undefined, s: "b\nc", b: false },
+  ]);
+  assertEquals(df.toCSV(), text);
+});
+
+Deno.test("CSV round trip of NaN", () => {
+  const df = new DataFrame({ n: new Series([1, NaN, 3]) });
+  const copy = DataFrame.fromCSV(df.toCSV());
+  assertInstanceOf(copy.column("n"), Series);
+  assertEquals(copy.values("n"), [1, undefined, 3]);
+});
+
+Deno.test("CSV options", () => {
+  const text = "1;01\n2;x\n";
+  const df = DataFrame.fromCSV(text, {
+    delimiter: ";",
+    header: false,
+    names: ["id", "code"],
+    types: { id: "string" },
+  });
+  assertEquals(df.records, [{ id: "1", code: "01" }, { id: "2", code: "x" }]);
+  assertEquals(
+    df.reverse.toCSV({ delimiter: ";", header: false }),
+    "2;x\n1;01\n",
+  );
+});
+
+Deno.test("Merge", () => {
+  const df = DataFrame.fromRecords([
+    { k: 1, s: "a" },
+    { k: 2, s: "b" },
+    { k: 3, s: "c" },
+  ]);
+  const dg = DataFrame.fromRecords([
+    { k: 2, s: "x", p: 4 },
+    { k: 1, s: "y", p: 5 },
+    { k: 2, s: "z", p: 6 },
+    { k: 4, s: "w", p: 7 },
+  ]);
+
+  const inner = df.merge(dg, { on: ["k"] });
+  assertEquals(inner.names, ["k", "s_x", "s_y", "p"]);
+  assertEquals(inner.records, [
+    { k: 1, s_x: "a", s_y: "y", p: 5 },
+    { k: 2, s_x: "b", s_y: "x", p: 4 },
+    { k: 2, s_x: "b", s_y: "z", p: 6 },
+  ]);
+
+  const left = df.reverse.merge(dg, { on: ["k"], how: "left" });
+  assertEquals(left.values("k"), [3, 2, 2, 1]);
+  assertEquals(left.values("p"), [undefined, 4, 6, 5]);
+
+  const right = df.merge(dg, { on: ["k"], how: "right", suffixes: ["", "2"] });
+  assertEquals(right.values("k"), [1, 2, 2, 4]);
+  assertEquals(right.values("s"), ["a", "b", "b", undefined]);
+  assertEquals(right.values("s2"), ["y", "x", "z", "w"]);
+
+  const outer = df.merge(dg, { on: ["k"], how: "outer" });
+  assertEquals(outer.values("k"), [1, 2, 2, 3, 4]);
+});
+
+Deno.test("Merge on multiple and differently named keys", () => {
+  const df = DataFrame.fromRecords([
+    { a: 1, b: "x", n: 1 },
+    { a: 1, b: "y", n: 2 },
+  ]);
+  const dg = DataFrame.fromRecords([
+    { c: "y", d: 1, m: 3 },
+    { c: "x", d: 2, m: 4 },
+  ]);
+  const dm = df.merge(dg, { on: { left: ["a", "b"], right: ["d", "c"] } });
+  assertEquals(dm.records, [{ a: 1, b: "y", n: 2, c: "y", d: 1, m: 3 }]);
+});
+
+Deno.test("Describe", () => {
+  const df = DataFrame.fromRecords([
+    { n: 1, s: "a", b: true },
+    { n: 2, s: "b", b: true },
+    { n: 3, s: "a", b: false },
+    { n: 10, s: "c", b: false },
+  ]);
+  const dd = df.slice(0, 3).describe();
+  assertEquals(dd.names, ["Name", "n", "s", "b"]);
+  assertEquals(dd.values("Name"), [
+    "count",
+    "unique",
+    "top",
+    "mean",
+    "std",
+    "min",
+    "25%",
+    "50%",
+    "75%",
+    "max",
+  ]);
+  assertEquals(dd.values("n"), [
+    3,
+    undefined,
+    undefined,
+    2,
+    1,
+    1,
+    1.5,
+    2,
+    2.5,
+    3,
+  ]);
+  assertEquals(dd.values("s").slice(0, 4), [3, 2, "a", undefined]);
+  assertEquals(dd.values("b").slice(0, 3), [3, 2, true]);
+
+  const dn = df.include(["n"]).describe();
+  assertEquals(dn.length, 8);
+});
+
+Deno.test("Sort by multiple columns", () => {
+  const df = DataFrame.fromRecords([
+    { k: 2, s: "b", i: 0 },
+    { k: 1, s: "b", i: 1 },
+    { s: "a", i: 2 },
+    { k: 1, s: "a", i: 3 },
+    { k: 2, s: "b", i: 4 },
+  ]);
+  const sorted = df.sortBy([
+    { name: "s", ascending: false },
+    { name: "k", nulls: "first" },
+  ]);
+  assertEquals(sorted.values("i"), [1, 0, 4, 2, 3]);
+  assertEquals(df.sort("k").values("i"), [1, 3, 0, 4, 2]);
+  assertEquals(df.sort("k", false).values("i"), [0, 4, 1, 3, 2]);
+});
+
+Deno.test("Sort with custom comparator", () => {
+  const df = DataFrame.fromRecords([{ s: "aaa" }, { s: "b" }, { s: "cc" }]);
+  const sorted = df.sortBy([{
+    name: "s",
+    compare: (a, b) => String(a).length - String(b).length,
+  }]);
+  assertEquals(sorted.values("s"), ["b", "cc", "aaa"]);
+});
+
+Deno.test("Sort booleans and locale strings", () => {
+  const df = DataFrame.fromRecords([
+    { b: true, s: "ä" },
+    { b: false, s: "z" },
+  ]);
+  assertEquals(df.sort("b").values("b"), [false, true]);
+  const sv = df.sortBy([{ name: "s", locale: "sv" }]);
+  assertEquals(sv.values("s"), ["z", "ä"]);
+  const de = df.sortBy([{ name: "s", locale: "de" }]);
+  assertEquals(de.values("s"), ["ä", "z"]);
+});
+
+Deno.test("Pivot and melt", () => {
+  const long = DataFrame.fromRecords([
+    { d: "mon", k: "a", v: 1 },
+    { d: "mon", k: "b", v: 2 },
+    { d: "tue", k: "a", v: 3 },
+    { d: "tue", k: "a", v: 4 },
+  ]);
+  const wide = long.pivot({ index: "d", columns: "k", values: "v" });
+  assertEquals(wide.records, [
+    { d: "mon", a: 1, b: 2 },
+    { d: "tue", a: 3, b: undefined },
+  ]);
+  const sum = long.pivot({
+    index: ["d"],
+    columns: "k",
+    values: "v",
+    aggregate: "sum",
+  });
+  assertEquals(sum.values("a"), [1, 7]);
+
+  const melted = wide.melt({ idVars: ["d"], varName: "k", valueName: "v" });
+  assertEquals(melted.records, [
+    { d: "mon", k: "a", v: 1 },
+    { d: "tue", k: "a", v: 3 },
+    { d: "mon", k: "b", v: 2 },
+    { d: "tue", k: "b", v: undefined },
+  ]);
+  assertEquals(melted.column("v").isNumber, true);
+});
+
+Deno.test("Pivot with missing or clashing names", () => {
+  const long = DataFrame.fromRecords([
+    { k: 1, c: "a", v: 1 },
+    { k: 1, c: undefined, v: 2 },
+    { k: 2, c: "a", v: 3 },
+  ]);
+  const wide = long.pivot({ index: "k", columns: "c", values: "v" });
+  assertEquals(wide.names, ["k", "a"]);
+  assertEquals(wide.values("a"), [1, 3]);
+
+  const clash = DataFrame.fromRecords([{ k: 1, c: "k", v: 1 }]);
+  assertThrows(
+    () => clash.pivot({ index: "k", columns: "c", values: "v" }),
+    Error,
+    "same name as index",
+  );
+});
+
+Deno.test("Transpose", () => {
+  const df = DataFrame.fromRecords(testdata).include(["n", "s"]);
+  const dt = df.reverse.transpose();
+  assertEquals(dt.names, ["Name", "row0", "row1"]);
+  assertEquals(dt.records, [
+    { Name: "n", row0: 3, row1: 1 },
+    { Name: "s", row0: "b", row1: "a" },
+  ]);
+
+  const numbers = DataFrame.fromRecords([{ x: 1, y: 2 }, { x: 3, y: 4 }]);
+  const dn = numbers.transpose();
+  assertEquals(dn.column("row0").isNumber, true);
+  assertEquals(dn.transpose().names, ["Name", "x", "y"]);
+  assertEquals(dn.transpose().records, [
+    { Name: "row0", x: 1, y: 2 },
+    { Name: "row1", x: 3, y: 4 },
+  ]);
+
+  // Labels from Name column must be unique
+  const twice = DataFrame.fromRecords([{ Name: "a" }, { Name: "a" }]);
+  assertThrows(() => twice.transpose(), Error, "Label a is not unique");
+  const clash = DataFrame.fromRecords([{ Name: "Name", n: 1 }]);
+  assertThrows(() => clash.transpose(), Error, "Label Name is not unique");
+});
+
+Deno.test("Window operations follow index", () => {
+  const df = DataFrame.fromRecords([
+    { t: 3, n: 30 },
+    { t: 1, n: 10 },
+    { t: 2, n: 20 },
+  ]);
+  const sorted = df.sort("t");
+  assertEquals(sorted.rolling("n", 2, "sum").values("n_rolling"), [
+    undefined,
+    30,
+    50,
+  ]);
+  assertEquals(
+    sorted.rolling("n", 2, "mean", { minPeriods: 1, target: "m" }).values("m"),
+    [10, 15, 25],
+  );
+  assertEquals(sorted.expanding("n", "max").values("n_expanding"), [
+    10,
+    20,
+    30,
+  ]);
+  assertEquals(sorted.cumsum("n").values("n_cumsum"), [10, 30, 60]);
+  assertEquals(sorted.cumprod("t").values("t_cumprod"), [1, 2, 6]);
+  assertEquals(sorted.reverse.cummax("n").values("n_cummax"), [30, 30, 30]);
+  assertEquals(sorted.shift("n").values("n_shift"), [undefined, 10, 20]);
+  assertEquals(sorted.diff("n").values("n_diff"), [undefined, 10, 10]);
+  assertEquals(sorted.pctChange("n").values("n_pct_change"), [
+    undefined,
+    1,
+    0.5,
+  ]);
+});
+
+Deno.test("Missing values", () => {
+  const df = DataFrame.fromRecords([
+    { n: 1, s: "a" },
+    { n: NaN, s: "b" },
+    { n: undefined, s: undefined },
+    { n: 7, s: "d" },
+  ]);
+  assertEquals(df.isMissing("n").values, [false, true, true, false]);
+  assertEquals(df.dropMissing().values("s"), ["a", "d"]);
+  assertEquals(df.dropMissing({ names: ["s"] }).values("s"), ["a", "b", "d"]);
+  assertEquals(df.dropMissing({ how: "all" }).values("n"), [1, NaN, 7]);
+
+  assertEquals(
+    df.fillMissing({ n: "forward", s: "backward" }).records,
+    [
+      { n: 1, s: "a" },
+      { n: 1, s: "b" },
+      { n: 1, s: "d" },
+      { n: 7, s: "d" },
+    ],
+  );
+  assertEquals(df.fillMissing({ n: "mean" }).values("n"), [1, 4, 4, 7]);
+  assertEquals(df.slice(0, 3).fillMissing({ n: "median" }).values("n"), [
+    1,
+    1,
+    1,
+  ]);
+  assertEquals(df.fillMissing({ s: "x" }).values("s"), ["a", "b", "x", "d"]);
+  assertEquals(df.interpolate("n").values("n"), [1, 3, 5, 7]);
+  assertEquals(df.reverse.interpolate("n").values("n"), [7, 5, 3, 1]);
+  assertThrows(
+    () => df.dropMissing({ names: ["x"] }),
+    Error,
+    "Column x does not exist",
+  );
+  assertThrows(
+    () => df.fillMissing({ x: 0 } as Record<string, number>),
+    Error,
+    "Column x does not exist",
+  );
+  assertThrows(
+    () => df.isMissing("x" as "n"),
+    Error,
+    "Column x does not exist",
+  );
+  assertThrows(
+    () => df.interpolate("x" as "n"),
+    Error,
+    "Column x does not exist",
+  );
+});
+
+Deno.test("Duplicate rows", () => {
+  const df = DataFrame.fromRecords([
+    { n: 1, o: { a: 1, b: 2 } },
+    { n: 2, o: { b: 2, a: 1 } },
+    { n: 1, o: { a: 1, b: 2 } },
+    { n: NaN, o: undefined },
+    { n: undefined, o: undefined },
+  ]);
+  assertEquals(df.duplicated().values, [false, false, true, false, true]);
+  assertEquals(df.duplicated(["o"], "last").values, [
+    true,
+    true,
+    false,
+    true,
+    false,
+  ]);
+  assertEquals(df.dropDuplicates().values("n"), [1, 2, NaN]);
+  assertEquals(df.dropDuplicates({ subset: ["n"], keep: "none" }).values("n"), [
+    2,
+  ]);
+  assertEquals(df.reverse.dropDuplicates({ subset: ["o"] }).values("n"), [
+    undefined,
+    1,
+  ]);
+});
+
+Deno.test("Unique values and counts", () => {
+  const df = DataFrame.fromRecords([
+    { s: "b" },
+    { s: "a" },
+    { s: undefined },
+    { s: "a" },
+    { s: "b" },
+    { s: "a" },
+  ]);
+  assertEquals(df.unique("s"), ["b", "a", undefined]);
+  const counts = df.valueCounts("s");
+  assertEquals(counts.names, ["s", "count"]);
+  assertInstanceOf(counts.column("s"), TextSeries);
+  assertEquals(counts.records, [
+    { s: "a", count: 3 },
+    { s: "b", count: 2 },
+    { s: undefined, count: 1 },
+  ]);
+  assertEquals(
+    df.slice(0, 4).valueCounts("s", { normalize: true, sort: false }).records,
+    [
+      { s: "b", proportion: 0.25 },
+      { s: "a", proportion: 0.5 },
+      { s: undefined, proportion: 0.25 },
+    ],
+  );
+});
+
+Deno.test("Typed number columns", () => {
+  const df = DataFrame.fromRecords([
+    { n: 1, s: "a" },
+    { n: undefined, s: "b" },
+    { n: 3, s: "c" },
+    { n: 100, s: "d" },
+  ]);
+  const dt = df.typed();
+  assertInstanceOf(dt.column("n"), FloatSeries);
+  assertInstanceOf(dt.column("s"), TextSeries);
+  assertEquals(dt.records, df.records);
+
+  const ops = (d: DataFrame) =>
+    d.slice(0, 3).scale("n", 1 / 3).add("n", 1).log("n").digits(2)
+      .distribute("n").values("n");
+  assertEquals(ops(dt), ops(df));
+  assertEquals(dt.outlier(1).values("s"), df.outlier(1).values("s"));
+});
+
+Deno.test("Dates", () => {
+  const df = DataFrame.fromRecords([
+    { d: "2024-01-02T10:00:00Z", n: 3 },
+    { d: "2024-01-01T08:00:00Z", n: 1 },
+    { d: undefined, n: 9 },
+    { d: "2024-01-01T09:30:00Z", n: 2 },
+    { d: "2024-01-08T00:00:00Z", n: 4 },
+  ]);
+  assertInstanceOf(df.column("d"), DateSeries);
+  assertEquals(df.sort("d").values("n"), [1, 2, 3, 4, 9]);
+
+  const daily = df.resample("d", "1d", { n: "sum" });
+  assertEquals(daily.values<Date>("d").map((d) => d.toISOString()), [
+    "2024-01-01T00:00:00.000Z",
+    "2024-01-02T00:00:00.000Z",
+    "2024-01-08T00:00:00.000Z",
+  ]);
+  assertEquals(daily.values("n"), [3, 3, 4]);
+
+  const weekly = df.resample("d", "1w", { n: "count" });
+  assertEquals(weekly.values("n"), [3, 1]);
+  assertEquals(weekly.values<Date>("d")[0].getUTCDay(), 1);
+
+  const hourly = df.resample("d", "2h", { n: "max" });
+  assertEquals(hourly.values("n"), [2, 3, 4]);
+
+  const text = "d,n\n2024-01-01,1\n";
+  const csv = DataFrame.fromCSV(text);
+  assertInstanceOf(csv.column("d"), DateSeries);
+  assertEquals(csv.toCSV(), "d,n\n2024-01-01T00:00:00.000Z,1\n");
+  const local = DataFrame.fromCSV("d\n2024-01-02T10:00\n");
+  assertEquals(local.toCSV(), "d\n2024-01-02T10:00:00.000Z\n");
+  const def = DataFrame.fromDef({ d: "date" }, [{ d: "2024-01-01" }]);
+  assertInstanceOf(def.column("d"), DateSeries);
+
+  // Impossible dates are kept as text
+  const invalid = DataFrame.fromCSV("d\n2024-01-01\n2024-13-45\n");
+  assertInstanceOf(invalid.column("d"), TextSeries);
+  assertEquals(invalid.values("d"), ["2024-01-01", "2024-13-45"]);
+  const records = DataFrame.fromRecords([{ d: "2024-01-01" }, {
+    d: "2024-04-31",
+  }]);
+  assertInstanceOf(records.column("d"), TextSeries);
+});
+
+Deno.test("Typed schema", () => {
+  const df = DataFrame.fromRecords(testdata);
+  const n: number[] = df.values("n");
+  assertEquals(n, [1, 3]);
+
+  const renamed = df.rename({ n: "m" }).include(["m", "s"]);
+  assertEquals(renamed.values("m"), [1, 3]);
+  const amended = renamed.amend("double", (r) => r.m * 2);
+  const double: number[] = amended.values("double");
+  assertEquals(double, [2, 6]);
+
+  const misspelled = () => {
+    // @ts-expect-error: column does not exist
+    df.include(["x"]);
+    // @ts-expect-error: column was renamed
+    renamed.values("n");
+  };
+  assertInstanceOf(misspelled, Function);
+
+  const defined = DataFrame.fromDef({ n: "number", s: "string" });
+  const s: Array<string | undefined> = defined.values("s");
+  assertEquals(s, []);
+});
+
+Deno.test("Validate schema", () => {
+  const df = DataFrame.fromRecords<RowRecord>([
+    { n: 1, s: "a" },
+    { n: "2", s: "b" },
+    { n: undefined, s: 3 },
+  ]);
+  assertEquals(df.validate({ n: "number", s: "string" }), [
+    { column: "n", expected: "number", row: 1, value: "2" },
+    { column: "s", expected: "string", row: 2, value: 3 },
+  ]);
+  assertEquals(df.validate({ x: "bool" }), [
+    { column: "x", expected: "bool" },
+  ]);
+  assertEquals(df.slice(0, 1).validate({ n: "number", s: "string" }), []);
+});
+
+Deno.test("Query and eval expressions", () => {
+  const df = DataFrame.fromRecords([
+    { price: 12, qty: 3, category: "fruit" },
+    { price: 8, qty: 2, category: "fruit" },
+    { price: 15, qty: 1, category: "bread" },
+  ]);
+  const selected = df.query("price > 10 && category == 'fruit'");
+  assertEquals(selected.values("qty"), [3]);
+  const evaluated = df.eval("total = price * qty");
+  assertEquals(evaluated.values("total"), [36, 16, 15]);
+  assertThrows(() => df.query("prise > 10"), Error, "Unknown column prise");
+});
+
+Deno.test("Concatenate rows", () => {
+  const a = DataFrame.fromRecords([{ n: 1, s: "a" }, { n: 2, s: "b" }]);
+  const b = DataFrame.fromRecords([{ n: 3, b: true }]).typed();
+  const union = DataFrame.concat([a.reverse, b]);
+  assertEquals(union.records, [
+    { n: 2, s: "b", b: undefined },
+    { n: 1, s: "a", b: undefined },
+    { n: 3, s: undefined, b: true },
+  ]);
+  assertInstanceOf(union.column("b"), BoolSeries);
+
+  const intersection = DataFrame.concat([a, b], { how: "intersection" });
+  assertEquals(intersection.names, ["n"]);
+  assertEquals(intersection.values("n"), [1, 2, 3]);
+
+  const c = DataFrame.fromRecords([{ n: "4" }]);
+  assertThrows(() => DataFrame.concat([a, c]), Error, "series classes");
+  const widened = DataFrame.concat([a, c], { conflict: "widen" });
+  assertInstanceOf(widened.column("n"), ObjectSeries);
+  assertEquals(widened.values("n"), [1, 2, "4"]);
+});
+
+Deno.test("Append records", () => {
+  const df = DataFrame.fromRecords([{ n: 1, s: "a" }]);
+  const da = df.append([{ n: 2, s: "b", x: true }, { n: 3 }]);
+  assertEquals(da.values("n"), [1, 2, 3]);
+  assertEquals(da.values("s"), ["a", "b", undefined]);
+  assertEquals(da.values("x"), [undefined, true, undefined]);
+  assertThrows(
+    () => df.append([{ n: "7" }]),
+    Error,
+    "Value 7 in record 0 is not number as column n",
+  );
+});
+
+Deno.test("Categorical column", () => {
+  const df = DataFrame.fromRecords([
+    { size: "large", n: 1 },
+    { size: "small", n: 2 },
+    { size: "medium", n: 3 },
+    { size: "small", n: 4 },
+  ]).categorize("size", ["small", "medium", "large"]);
+  assertInstanceOf(df.column("size"), CategorySeries);
+  assertEquals(df.sort("size").values("n"), [2, 4, 3, 1]);
+  assertEquals(df.sort("size", false).values("n"), [1, 3, 2, 4]);
+
+  const sums = df.groupBy(["size"]).agg({ n: "sum" });
+  assertInstanceOf(sums.column("size"), CategorySeries);
+  assertEquals(sums.records, [
+    { size: "large", n: 1 },
+    { size: "small", n: 6 },
+    { size: "medium", n: 3 },
+  ]);
+
+  const labels = DataFrame.fromRecords([{ size: "small", label: "S" }]);
+  assertEquals(df.merge(labels, { on: ["size"] }).values("n"), [2, 4]);
+  assertEquals(df.describe().values("size").slice(0, 3), [4, 3, "small"]);
+});
+
+Deno.test("Group and merge by category codes", () => {
+  const records = [
+    { c: "x", d: "p", n: 1 },
+    { c: "y", d: "p", n: 2 },
+    { c: undefined, d: "q", n: 3 },
+    { c: "x", d: "q", n: 4 },
+    { c: "x", d: "p", n: 5 },
+  ];
+  const text = DataFrame.fromRecords(records);
+  const coded = text.categorize("c").categorize("d");
+  const sorted = coded.sort("n", false);
+  assertEquals(
+    sorted.groupBy(["c", "d"]).agg({ n: "sum" }).records,
+    text.sort("n", false).groupBy(["c", "d"]).agg({ n: "sum" }).records,
+  );
+
+  // Dictionaries in different order are remapped
+  const labels = DataFrame.fromRecords([
+    { c: "z", label: "Z" },
+    { c: "y", label: "Y" },
+    { c: "x", label: "X" },
+  ]).categorize("c");
+  const merged = coded.merge(labels, { on: ["c"], how: "left" });
+  assertEquals(merged.values("label"), ["X", "Y", undefined, "X", "X"]);
+  assertEquals(
+    merged.records,
+    text.merge(DataFrame.fromRecords(labels.records), {
+      on: ["c"],
+      how: "left",
+    })
+      .records,
+  );
+});
+
+Deno.test("Stack categories with different labels", () => {
+  const a = DataFrame.fromRecords([{ c: "lo" }, { c: "hi" }])
+    .categorize("c", ["lo", "hi"]);
+  const b = DataFrame.fromRecords([{ c: "mid" }]).categorize("c", ["mid"]);
+  const stacked = DataFrame.concat([a, b]);
+  assertEquals(stacked.values("c"), ["lo", "hi", "mid"]);
+  assertEquals((stacked.column("c") as CategorySeries).categories, [
+    "lo",
+    "hi",
+    "mid",
+  ]);
+  const appended = a.append([{ c: "mid" }]);
+  assertEquals(appended.values("c"), ["lo", "hi", "mid"]);
+  assertEquals(appended.sort("c", false).values("c"), ["mid", "hi", "lo"]);
+});
+
+Deno.test("Save and load binary", async () => {
+  const df = DataFrame.fromRecords([
+    { n: 1, s: "a", b: true },
+    { n: 2, s: "b", b: false },
+    { n: 3, s: "c", b: true },
+  ]);
+  const sliced = df.reverse.slice(0, 2);
+  assert(DataFrame.fromBytes(sliced.toBytes()).equals(sliced));
+
+  const path: string = await Deno.makeTempFile({ suffix: ".bin" });
+  try {
+    await df.save(path);
+    const loaded = await DataFrame.load(path);
+    assert(loaded.equals(df));
+    assertInstanceOf(loaded.column("s"), TextSeries);
+  } finally {
+    await Deno.remove(path);
+  }
+});
+
+Deno.test("Arrow interchange", () => {
+  const df = DataFrame.fromRecords([
+    { n: 1, s: "a", b: true },
+    { n: 2, s: "b", b: false },
+  ]).reverse;
+  const copy = DataFrame.fromArrowIPC(df.toArrowIPC({ format: "file" }));
+  assert(copy.equals(df));
+});
+
+Deno.test("Correlation of rows in index", () => {
+  const df = DataFrame.fromRecords([
+    { x: 1, y: 1, s: "a" },
+    { x: 2, y: 3, s: "b" },
+    { x: 3, y: 2, s: "c" },
+    { x: 4, y: 4, s: "d" },
+    { x: 100, y: undefined, s: "e" },
+  ]);
+  const c = df.correlationMatrix();
+  assertEquals(c.names, ["Name", "x", "y"]);
+  assertAlmostEquals(c.values<number>("y")[0], 0.8);
+  assertAlmostEquals(
+    df.correlationMatrix(df, { method: "kendall" }).values<number>("y")[0],
+    2 / 3,
+  );
+
+  // Rows in index only, and only rows where all values are present
+  const first = df.slice(0, 3).correlationMatrix();
+  assertAlmostEquals(first.values<number>("y")[0], 0.5);
+  const listwise = df.correlationMatrix(df, { pairwise: false });
+  assertAlmostEquals(listwise.values<number>("y")[0], 0.8);
+  assertAlmostEquals(listwise.values<number>("x")[0], 1);
+
+  // Sample variance of x on diagonal
+  assertEquals(df.covarianceMatrix().values("x")[0], 1902.5);
+  assertEquals(
+    df.covarianceMatrix({ pairwise: false }).values("x")[0],
+    5 / 3,
+  );
+});
+
+Deno.test("Linear regression", () => {
+  const df = DataFrame.fromRecords([
+    { y: 3, a: 1, b: 0 },
+    { y: 5, a: 2, b: 0 },
+    { y: 8, a: 3, b: 1 },
+    { y: 9, a: 4, b: 0 },
+    { y: undefined, a: 5, b: 1 },
+  ]);
+  const fit = df.linearRegression("y", ["a", "b"]);
+  assertAlmostEquals(fit.intercept, 1);
+  assertEquals(fit.coefficients.values("Name"), ["intercept", "a", "b"]);
+  const [, a, b] = fit.coefficients.values<number>("Coefficient");
+  assertAlmostEquals(a, 2);
+  assertAlmostEquals(b, 1);
+  assertAlmostEquals(fit.r2, 1);
+  assertEquals(fit.residuals.length, 5);
+  assertEquals(fit.residuals.values[4], undefined);
+  assertThrows(() => df.linearRegression("y", ["a", "a"]), Error, "collinear");
+});
+
+Deno.test("Render as text", () => {
+  const df = DataFrame.fromRecords(
+    Array.from(
+      { length: 100 },
+      (_, i) => ({ n: i, s: i % 2 ? "odd" : undefined }),
+    ),
+  );
+  const text: string = df.toString({ maxRows: 4, placeholder: "-" });
+  assertStringIncludes(text, "100 rows × 2 columns");
+  assertStringIncludes(text, "99");
+  assertStringIncludes(text, "…");
+  assertEquals(text.includes("50"), false);
+  assertStringIncludes(text, "-");
+  assertEquals(df.print("Title", { maxRows: 2 }), df);
+  assertStringIncludes(df.slice(0, 1).toMarkdown(), "| 0 |  |");
+  assertStringIncludes(df.slice(0, 1).toHTML(), "<td></td>");
+});
+
+Deno.test("Vectorized columns", () => {
+  const df = DataFrame.fromRecords([
+    { a: 1, b: 10, s: "x" },
+    { a: 2, b: 20, s: "y" },
+    { a: 3, b: 30, s: "z" },
+  ]);
+  const total = df.col("a").mul(df.col("b")).sub(1);
+  assertEquals(total.values, [9, 39, 89]);
+  const assigned = df.assign({ total });
+  assertEquals(assigned.values("total"), [9, 39, 89]);
+
+  // Values in order of index
+  const reversed = df.reverse;
+  assertEquals(reversed.col("a").values, [3, 2, 1]);
+  const big = reversed.filter(reversed.col("b").ge(20));
+  assertEquals(big.values("s"), ["z", "y"]);
+  const sums = big.assign({ c: big.col("a").add(big.col("b")) });
+  assertEquals(sums.records, [
+    { a: 3, b: 30, s: "z", c: 33 },
+    { a: 2, b: 20, s: "y", c: 22 },
+  ]);
+  assertThrows(() => df.filter(new BoolSeries([true])), Error, "length");
+
+  // Number columns of dataframe without schema
+  const csv = DataFrame.fromCSV("a,b,s\n1,10,x\n2,20,y");
+  assertEquals(csv.num("a").mul(csv.num("b")).values, [10, 40]);
+  assertThrows(() => csv.num("s"), Error, "Column s is not numeric");
+});
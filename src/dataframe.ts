@@ -1,10 +1,56 @@
-import { avg, correlation, std } from "@sauber/statistics";
+import { avg, std } from "@sauber/statistics";
 import { Table } from "@sauber/table";
-import { shuffleArray } from "@hugoalh/shuffle-array";
-import { BoolSeries, ObjectSeries, Series, TextSeries } from "./series.ts";
-import type { SeriesClasses, SeriesTypes } from "./series.ts";
+import { decodeArrow, encodeArrow } from "./arrow.ts";
+import type { ArrowOptions } from "./arrow.ts";
+import { decodeColumns, encodeColumns } from "./binary.ts";
+import {
+  bar,
+  equalWidth,
+  intervals,
+  locate,
+  quantileEdges,
+  validEdges,
+} from "./bins.ts";
+import type { BinOptions } from "./bins.ts";
+import { convert, formatCSV, inferType, parseCSV } from "./csv.ts";
+import type { CSVReadOptions, CSVWriteOptions } from "./csv.ts";
+import { correlate, covariance, leastSquares } from "./correlation.ts";
+import type { CorrelationMethod } from "./correlation.ts";
+import { GroupBy } from "./groupby.ts";
+import { LazyFrame } from "./lazy.ts";
+import { formatHTML, formatMarkdown, grid, pad } from "./render.ts";
+import type { Grid, RenderOptions } from "./render.ts";
+import { LabelEncoder, OneHotEncoder, Scaler } from "./preprocess.ts";
+import type { OneHotOptions, ScalingFit, Transform } from "./preprocess.ts";
+import { compile, compileAssignment } from "./query.ts";
+import { choose, generator, shuffled } from "./random.ts";
+import type { RandomGenerator } from "./random.ts";
+import type { Aggregation, Aggregations } from "./groupby.ts";
+import { cumulative, difference, rolling, shift } from "./window.ts";
+import type { TargetOptions, WindowFunction, WindowOptions } from "./window.ts";
+import {
+  autoSeries,
+  BoolSeries,
+  canonical,
+  CategorySeries,
+  DateSeries,
+  FloatSeries,
+  isoDate,
+  likeSeries,
+  missing,
+  ObjectSeries,
+  Series,
+  TextSeries,
+} from "./series.ts";
+import type { SeriesTypes } from "./series.ts";
 
-type Column = Series | TextSeries | BoolSeries | ObjectSeries<object>;
+type Column =
+  | Series
+  | TextSeries
+  | BoolSeries
+  | DateSeries
+  | CategorySeries
+  | ObjectSeries<object>;
 type Columns = Record<string, Column>;
 
 /** A single record of values spanning columns */
@@ -16,28 +62,434 @@ export type RowRecords = Array<RowRecord>;
 type RowValues = Array<SeriesTypes>;
 type Index = number[];
 type ColumnNames = string[];
-type SortElement = [number, SeriesTypes];
-type RowCallback = (row: RowRecord) => SeriesTypes;
+type RowCallback<Row> = (row: Row) => SeriesTypes;
 type ColumnName = string;
-type ColumnTypeName = "number" | "string" | "bool" | "object";
-type Header = Record<ColumnName, ColumnTypeName>;
 
-/** Auto-generate a series from an array of unknown values */
-function series(array: Array<unknown>): SeriesClasses {
-  switch (typeof array.filter((v) => v != undefined)[0]) {
+/** Names of columns in schema of rows */
+type Name<Row> = keyof Row & string;
+
+/** Names of types of columns */
+export type ColumnTypeName =
+  | "number"
+  | "string"
+  | "bool"
+  | "date"
+  | "category"
+  | "object";
+
+/** Type of each named column */
+export type Header = Record<ColumnName, ColumnTypeName>;
+
+/** Type of values in column of named type */
+export type TypeOf<T extends ColumnTypeName> = T extends "number" ? number
+  : T extends "string" | "category" ? string
+  : T extends "bool" ? boolean
+  : T extends "date" ? Date
+  : object;
+
+/** Type of rows defined by header, all values may be missing */
+export type Schema<H extends Header> = {
+  [K in keyof H]: TypeOf<H[K]> | undefined;
+};
+
+/** Type of rows with columns renamed */
+export type Renamed<Row, M> = {
+  [K in keyof Row as K extends keyof M ? M[K] & string : K]: Row[K];
+};
+
+/** Type of rows with a column added or replaced */
+export type Amended<Row, N extends string, V> = {
+  [K in keyof Row | N]: K extends N ? V : Row[K & keyof Row];
+};
+
+/** Type of rows with columns added or replaced by series */
+export type Assigned<Row, A extends Record<string, Column>> = {
+  [K in keyof Row | keyof A]: K extends keyof A ? A[K]["values"][number]
+    : Row[K & keyof Row];
+};
+
+/** Class of series for type of values */
+export type SeriesOf<V> = [V] extends [number | undefined] ? Series
+  : [V] extends [string | undefined] ? TextSeries
+  : [V] extends [boolean | undefined] ? BoolSeries
+  : [V] extends [Date | undefined] ? DateSeries
+  : Column;
+
+/** A value not matching type of column in header */
+export type Violation = {
+  /** Name of column */
+  column: ColumnName;
+
+  /** Expected type of values in column */
+  expected: ColumnTypeName;
+
+  /** Position of row, undefined if column is missing */
+  row?: number;
+
+  /** Value not matching expected type */
+  value?: SeriesTypes;
+};
+
+/** Pairs of numbers where neither is NaN */
+function present(x: Float64Array, y: Float64Array): [number[], number[]] {
+  const a: number[] = [];
+  const b: number[] = [];
+  for (let i = 0; i < x.length; i++) {
+    if (!Number.isNaN(x[i]) && !Number.isNaN(y[i])) {
+      a.push(x[i]);
+      b.push(y[i]);
+    }
+  }
+  return [a, b];
+}
+
+/** Are values equal, with numbers within tolerance. Objects are compared by
+ * structure, and missing values are equal to each other.
+ */
+function same(a: SeriesTypes, b: SeriesTypes, tolerance: number): boolean {
+  if (missing(a) || missing(b)) return missing(a) && missing(b);
+  if (typeof a === "number" && typeof b === "number") {
+    return Math.abs(a - b) <= tolerance;
+  }
+  return canonical(a) === canonical(b);
+}
+
+/** Order of canonical identities of values */
+function ascending(a: SeriesTypes, b: SeriesTypes): number {
+  const x = canonical(a) as number;
+  const y = canonical(b) as number;
+  return x < y ? -1 : x > y ? 1 : 0;
+}
+
+/** Does value match type of column */
+function matches(value: SeriesTypes, type: ColumnTypeName): boolean {
+  if (value === undefined) return true;
+  switch (type) {
     case "number":
-      return new Series(array as number[]);
+      return typeof value === "number";
     case "string":
-      return new TextSeries(array as string[]);
-    case "boolean":
-      return new BoolSeries(array as boolean[]);
+    case "category":
+      return typeof value === "string";
+    case "bool":
+      return typeof value === "boolean";
+    case "date":
+      return value instanceof Date;
     default:
-      return new ObjectSeries<object>(array as object[]);
+      return typeof value === "object" && value !== null;
   }
 }
 
-/** A collection of series with same length */
-export class DataFrame {
+/** Are all columns categories */
+function categorical(columns: Column[]): columns is CategorySeries[] {
+  return columns.every((c) => c instanceof CategorySeries);
+}
+
+/** Name of type of values in column */
+function typeName(column: Column): ColumnTypeName {
+  if (column instanceof Series) return "number";
+  if (column instanceof TextSeries) return "string";
+  if (column instanceof CategorySeries) return "category";
+  if (column instanceof BoolSeries) return "bool";
+  if (column instanceof DateSeries) return "date";
+  return "object";
+}
+
+/** Options for covariance of pairs of columns */
+export type CovarianceOptions = {
+  /** Use all rows where both values in a pair are present, default true.
+   * Otherwise only use rows where all values are present.
+   */
+  pairwise?: boolean;
+};
+
+/** Options for correlation of pairs of columns */
+export type CorrelationOptions = CovarianceOptions & {
+  /** Method of correlation, default "pearson" */
+  method?: CorrelationMethod;
+};
+
+/** Result of linear regression */
+export type Regression = {
+  /** Name of each term, starting with "intercept", and its coefficient */
+  coefficients: DataFrame;
+
+  /** Value when all explanatory values are zero */
+  intercept: number;
+
+  /** Coefficient of determination */
+  r2: number;
+
+  /** Observed minus fitted value for each row in order of index.
+   * Rows with missing values have no residual.
+   */
+  residuals: Series;
+};
+
+/** Options for random selection of rows */
+export type SampleOptions<Row = RowRecord> = {
+  /** Count of rows, default 1 */
+  n?: number;
+
+  /** Fraction of rows, instead of count */
+  fraction?: number;
+
+  /** Rows may be selected more than once, default false */
+  replace?: boolean;
+
+  /** Relative weight of each row, as column or list in order of index.
+   * Missing weights are zero.
+   */
+  weights?: Name<Row> | Array<number | undefined>;
+
+  /** Seed for reproducible selection */
+  seed?: number;
+};
+
+/** Options for random splitting of rows */
+export type SplitOptions<Row = RowRecord> = {
+  /** Seed for reproducible split */
+  seed?: number;
+
+  /** Column with same distribution of values in each part */
+  stratify?: Name<Row>;
+};
+
+/** Options for stacking rows of dataframes */
+export type ConcatOptions = {
+  /** Include columns from any or from all dataframes, default "union" */
+  how?: "union" | "intersection";
+
+  /** Columns with different series classes are errors, or widened to
+   * ObjectSeries. Default "error".
+   */
+  conflict?: "error" | "widen";
+};
+
+/** Which rows to keep when merging dataframes */
+export type MergeHow = "inner" | "left" | "right" | "outer";
+
+/** Options for merging dataframes */
+export type MergeOptions = {
+  /** Key columns with same names in both, or names in left and right */
+  on: ColumnNames | { left: ColumnNames; right: ColumnNames };
+
+  /** Rows to keep, default "inner" */
+  how?: MergeHow;
+
+  /** Appended to names of non-key columns existing in both, default _x, _y */
+  suffixes?: [string, string];
+};
+
+/** Column and ordering of values to sort by */
+export type SortKey<Row = RowRecord> = {
+  /** Name of column */
+  name: Name<Row>;
+
+  /** Smallest values first, default true */
+  ascending?: boolean;
+
+  /** Placement of undefined and NaN values, default "last" */
+  nulls?: "first" | "last";
+
+  /** Locale used for comparing strings */
+  locale?: string;
+
+  /** Custom comparison of two values which are not missing */
+  compare?: (a: SeriesTypes, b: SeriesTypes) => number;
+};
+
+/** Options for spreading values into new columns */
+export type PivotOptions = {
+  /** Columns identifying each row of result */
+  index: ColumnName | ColumnNames;
+
+  /** Column having names of new columns. Missing names are skipped. */
+  columns: ColumnName;
+
+  /** Column having values of new columns */
+  values: ColumnName;
+
+  /** Reduction of multiple values in same cell, default "first" */
+  aggregate?: Aggregation;
+};
+
+/** Options for gathering columns into rows */
+export type MeltOptions = {
+  /** Columns repeated on each row */
+  idVars?: ColumnNames;
+
+  /** Columns gathered into rows, default all except idVars */
+  valueVars?: ColumnNames;
+
+  /** Name of column having names of gathered columns, default "variable" */
+  varName?: ColumnName;
+
+  /** Name of column having values of gathered columns, default "value" */
+  valueName?: ColumnName;
+};
+
+/** Options for removing rows with missing values */
+export type DropMissingOptions = {
+  /** Columns to check, default all */
+  names?: ColumnNames;
+
+  /** Remove rows where any or all values are missing, default "any" */
+  how?: "any" | "all";
+};
+
+/** Options for comparing rows of dataframes */
+export type CompareOptions = {
+  /** Columns identifying matching rows, default position of rows */
+  key?: ColumnNames;
+
+  /** Largest difference of numbers considered equal, default 0 */
+  tolerance?: number;
+};
+
+/** Options for testing if dataframes are equal */
+export type EqualsOptions = {
+  /** Largest difference of numbers considered equal, default 0 */
+  tolerance?: number;
+
+  /** Rows may be in any order, default false */
+  ignoreOrder?: boolean;
+};
+
+/** Column with different series class in two dataframes */
+export type ClassChange = {
+  /** Name of column */
+  name: ColumnName;
+
+  /** Name of series class in this dataframe */
+  before: string;
+
+  /** Name of series class in other dataframe */
+  after: string;
+};
+
+/** Differences of columns between two dataframes */
+export type SchemaDifference = {
+  /** Columns only in other dataframe */
+  added: ColumnNames;
+
+  /** Columns only in this dataframe */
+  removed: ColumnNames;
+
+  /** Columns in both with different series class */
+  changed: Array<ClassChange>;
+};
+
+/** Differences from this dataframe to other dataframe */
+export type Comparison = {
+  /** Rows of other dataframe with keys not in this dataframe */
+  added: DataFrame;
+
+  /** Rows of this dataframe with keys not in other dataframe */
+  removed: DataFrame;
+
+  /** Rows of other dataframe with matching key and different values */
+  changed: DataFrame;
+
+  /** Key of each changed row, followed by "name_old" and "name_new" for each
+   * changed column. Values which did not change are missing. Without key
+   * columns, column "row" is position of row.
+   */
+  cells: DataFrame;
+
+  /** Added, removed and changed columns */
+  schema: SchemaDifference;
+};
+
+/** Options for adding column of bins */
+export type CutOptions = TargetOptions & BinOptions;
+
+/** Options for histogram */
+export type HistogramOptions = {
+  /** Count of characters in longest bar, default 40 */
+  width?: number;
+};
+
+/** Options for removing outliers */
+export type OutlierOptions = {
+  /** Limit is factor of standard deviation from mean, or factor of
+   * interquartile range outside quartiles. Default "std".
+   */
+  method?: "std" | "iqr";
+};
+
+/** Which of duplicate rows to keep, or none of them */
+export type KeepDuplicates = "first" | "last" | "none";
+
+/** Options for removing duplicate rows */
+export type DropDuplicatesOptions<Row = RowRecord> = {
+  /** Columns to compare, default all */
+  subset?: Array<Name<Row>>;
+
+  /** Row to keep of each set of duplicates, default "first" */
+  keep?: KeepDuplicates;
+};
+
+/** Options for counting values */
+export type ValueCountsOptions = {
+  /** Fraction of rows instead of count, default false */
+  normalize?: boolean;
+
+  /** Most frequent values first, otherwise order of first occurrence.
+   * Default true.
+   */
+  sort?: boolean;
+};
+
+/** Value or strategy for replacing missing values.
+ * "forward" and "backward" copy nearest value before or after,
+ * "mean" and "median" are calculated from values in column.
+ */
+export type Fill = SeriesTypes | "forward" | "backward" | "mean" | "median";
+
+/** Length of period, such as 15m, 1h, 1d or 1w */
+export type Period = `${number}${"s" | "m" | "h" | "d" | "w"}`;
+
+/** Milliseconds in each unit of period */
+const units: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/** Weeks start on Monday 1970-01-05 */
+const monday: number = 4 * units.d;
+
+/** Milliseconds in period */
+function duration(period: Period): number {
+  const match = period.match(/^(\d+)([smhdw])$/);
+  if (!match) throw new Error(`Invalid period ${period}`);
+  return Number(match[1]) * units[match[2]];
+}
+
+/** Generate a series of values of named type */
+function typedSeries(type: ColumnTypeName, values: RowValues): Column {
+  switch (type) {
+    case "number":
+      return new Series(values as number[]);
+    case "string":
+      return new TextSeries(values as string[]);
+    case "bool":
+      return new BoolSeries(values as boolean[]);
+    case "date":
+      return DateSeries.parse(values);
+    case "category":
+      return CategorySeries.from(values as string[]);
+    default:
+      return new ObjectSeries<object>(values as object[]);
+  }
+}
+
+/** A collection of series with same length.
+ * Type parameter Row describes names and types of columns.
+ */
+export class DataFrame<Row extends RowRecord = RowRecord> {
   private readonly index: Index;
 
   constructor(
@@ -62,8 +514,12 @@ export class DataFrame {
     }
   }
 
-  /** Import data from list of records, autodetect types from first record */
-  public static fromRecords(records: RowRecords): DataFrame {
+  /** Import data from list of records, autodetect types from values.
+   * Strings with ISO-8601 dates are converted to dates.
+   */
+  public static fromRecords<R extends RowRecord>(
+    records: Array<R>,
+  ): DataFrame<R> {
     // Transpose records to columns
     const arrays: Record<string, Array<unknown>> = {};
     records.forEach((rec: Record<string, unknown>, index: number) =>
@@ -78,80 +534,267 @@ export class DataFrame {
     const columns: Columns = Object.assign(
       {},
       ...Object.entries(arrays).map(([key, array]) => ({
-        [key]: series(array),
+        [key]: array.every((v) => v === undefined || isoDate(v)) &&
+            array.some(isoDate)
+          ? DateSeries.parse(array)
+          : autoSeries(array),
       })),
     );
 
     // Compile DataFrame
-    return new DataFrame(columns);
+    return new DataFrame<R>(columns);
   }
 
   /** Generate a DataFrame from a header definition and optional data.  */
-  public static fromDef(header: Header, records: RowRecords = []): DataFrame {
+  public static fromDef<const H extends Header>(
+    header: H,
+    records: RowRecords = [],
+  ): DataFrame<Schema<H>> {
     const columns: Columns = Object.fromEntries(
       Object.entries(header).map(([name, type]) => {
         const values = records.map((r) => r[name]);
-        const series = function () {
-          switch (type) {
-            case "number":
-              return new Series(values as number[]);
-            case "string":
-              return new TextSeries(values as string[]);
-            case "bool":
-              return new BoolSeries(values as boolean[]);
-            default:
-              return new ObjectSeries<object>(values as object[]);
-          }
-        };
-        return [name, series()];
+        return [name, typedSeries(type, values)];
       }),
     );
+    return new DataFrame<Schema<H>>(columns);
+  }
+
+  /** Stack rows of dataframes. Missing columns are filled with undefined. */
+  public static concat(
+    frames: Array<DataFrame>,
+    options: ConcatOptions = {},
+  ): DataFrame {
+    const { how = "union", conflict = "error" } = options;
+    const all: ColumnNames = [...new Set(frames.flatMap((f) => f.names))];
+    const names: ColumnNames = how === "union"
+      ? all
+      : all.filter((n) => frames.every((f) => n in f.columns));
+
+    // Typed numbers are compatible with other numbers
+    const kind = (column: Column) =>
+      column instanceof Series ? Series : column.constructor;
+
+    const columns: Columns = {};
+    names.forEach((name) => {
+      const sources: Column[] = frames
+        .filter((f) => name in f.columns)
+        .map((f) => f.columns[name]);
+      const values: RowValues = frames.flatMap((f) =>
+        name in f.columns ? f.list(name) : Array(f.length).fill(undefined)
+      );
+      if (sources.every((c) => kind(c) === kind(sources[0]))) {
+        columns[name] = likeSeries(sources[0], values);
+      } else if (conflict === "widen") {
+        columns[name] = new ObjectSeries<object>(values as object[]);
+      } else {
+        throw new Error(`Column ${name} has different series classes`);
+      }
+    });
+    return new DataFrame(columns);
+  }
+
+  /** Import data from binary layout created by toBytes */
+  public static fromBytes(bytes: Uint8Array): DataFrame {
+    return new DataFrame(decodeColumns(bytes));
+  }
+
+  /** Read binary layout from file created by save */
+  public static async load(path: string | URL): Promise<DataFrame> {
+    return DataFrame.fromBytes(await Deno.readFile(path));
+  }
+
+  /** Import data from Arrow IPC stream or file */
+  public static fromArrowIPC(bytes: Uint8Array): DataFrame {
+    return new DataFrame(decodeArrow(bytes));
+  }
+
+  /** Import data from CSV text, autodetect types from all values in columns */
+  public static fromCSV(text: string, options: CSVReadOptions = {}): DataFrame {
+    const { delimiter = ",", header = true, types = {} } = options;
+    const rows = parseCSV(text, delimiter);
+    const first = header ? rows.shift() || [] : [];
+    const width: number = Math.max(
+      first.length,
+      options.names?.length || 0,
+      ...rows.map((r) => r.length),
+    );
+    const names: ColumnNames = Array.from(
+      Array(width).keys(),
+      (i) => options.names?.[i] ?? first[i] ?? String(i),
+    );
+
+    // Skip blank lines unless there is only one column
+    const lines = width > 1
+      ? rows.filter((r) => r.length > 1 || r[0] !== undefined)
+      : rows;
+
+    const columns: Columns = {};
+    names.forEach((name, i) => {
+      const cells = lines.map((r) => r[i]);
+      const type: ColumnTypeName = types[name] ?? inferType(cells);
+      columns[name] = typedSeries(type, convert(cells, type, name));
+    });
     return new DataFrame(columns);
   }
 
   /** A new dataframe with subset of columns */
-  public include(names: ColumnNames): DataFrame {
-    return new DataFrame(
-      Object.assign({}, ...names.map((x) => ({ [x]: this.column(x) }))),
+  public include<K extends Name<Row>>(
+    names: ReadonlyArray<K>,
+  ): DataFrame<Pick<Row, K>> {
+    return new DataFrame<Pick<Row, K>>(
+      Object.assign({}, ...names.map((x) => ({ [x]: this.columns[x] }))),
       this.index,
     );
   }
 
   /** A new dataframe except named columns */
-  public exclude(names: ColumnNames): DataFrame {
-    const keep: ColumnNames = this.names.filter((n) => !names.includes(n));
-    return this.include(keep);
+  public exclude<K extends Name<Row>>(
+    names: ReadonlyArray<K>,
+  ): DataFrame<Omit<Row, K>> {
+    const drop: ReadonlyArray<string> = names;
+    const keep = this.names.filter((n) => !drop.includes(n));
+    return this.include(keep as Array<Name<Row>>) as DataFrame<Omit<Row, K>>;
+  }
+
+  /** Names of columns with numbers */
+  private get numeric(): ColumnNames {
+    return this.names.filter((n) => this.columns[n] instanceof Series);
+  }
+
+  /** Numbers of column in order of index, NaN where missing */
+  private vector(name: string): Float64Array {
+    const column: Column = this.columns[name];
+    const result = new Float64Array(this.length);
+    if (column instanceof FloatSeries) {
+      const array: Float64Array = column.array;
+      this.index.forEach((i, n) => {
+        result[n] = column.valid(i) ? array[i] : NaN;
+      });
+    } else {
+      const values = column.values as Array<number | undefined>;
+      this.index.forEach((i, n) => result[n] = values[i] ?? NaN);
+    }
+    return result;
   }
 
-  /** Correlation of each series to each series on other dataframe
-   * TODO: Only apply to rows in index
+  /** Apply function to pairs of number columns of this and other dataframe.
+   * Rows are paired in order of index.
    */
-  public correlationMatrix(other: DataFrame): DataFrame {
-    const RowRecords = this.names;
-    const cols = other.names;
-    const columns: Columns = {
-      Name: new TextSeries(RowRecords),
-    };
-    for (const colname of cols) {
-      const results: number[] = [];
-      for (const RowRecordname of RowRecords) {
-        const sc = other.column(colname) as Series;
-        const sr = this.column(RowRecordname) as Series;
-        const coef: number = correlation(
-          sc.values as number[],
-          sr.values as number[],
-        );
-        results.push(coef);
+  private matrix(
+    other: DataFrame,
+    pairwise: boolean,
+    fn: (x: number[], y: number[]) => number | undefined,
+  ): DataFrame {
+    if (other.length !== this.length) {
+      throw new Error("Dataframes have different count of rows");
+    }
+    const left: ColumnNames = this.numeric;
+    const right: ColumnNames = other.numeric;
+    const lists: Float64Array[] = left.map((n) => this.vector(n));
+    const others: Float64Array[] = right.map((n) => other.vector(n));
+
+    // Exclude rows with any missing value, unless pairwise
+    if (!pairwise) {
+      const all: Float64Array[] = [...lists, ...others];
+      for (let i = 0; i < this.length; i++) {
+        if (all.some((values) => Number.isNaN(values[i]))) {
+          all.forEach((values) => values[i] = NaN);
+        }
       }
-      columns[colname] = new Series(results);
     }
 
+    const columns: Columns = { Name: new TextSeries(left) };
+    right.forEach((name, j) => {
+      columns[name] = new Series(
+        lists.map((values) => fn(...present(values, others[j]))),
+      );
+    });
     return new DataFrame(columns);
   }
 
+  /** Correlation of each number column to each number column of other
+   * dataframe, by default this dataframe.
+   */
+  public correlationMatrix(
+    other: DataFrame = this,
+    options: CorrelationOptions = {},
+  ): DataFrame {
+    const { method = "pearson", pairwise = true } = options;
+    return this.matrix(other, pairwise, (x, y) => correlate(x, y, method));
+  }
+
+  /** Sample covariance of each pair of number columns */
+  public covarianceMatrix(options: CovarianceOptions = {}): DataFrame {
+    const { pairwise = true } = options;
+    return this.matrix(this, pairwise, covariance);
+  }
+
+  /** Ordinary least squares fit of column y to explanatory columns xs.
+   * Only rows where all values are present are used.
+   */
+  public linearRegression(y: Name<Row>, xs: Array<Name<Row>>): Regression {
+    [y, ...xs].forEach((n) => {
+      if (!(this.columns[n] instanceof Series)) {
+        throw new Error(`Column ${n} does not have numbers`);
+      }
+    });
+    const observed: RowValues = this.list(y);
+    const explanatory: Array<RowValues> = xs.map((n) => this.list(n));
+    const rows: number[] = this.index
+      .map((_, i) => i)
+      .filter((i) =>
+        !missing(observed[i]) && explanatory.every((v) => !missing(v[i]))
+      );
+    if (rows.length <= xs.length) {
+      throw new Error("Too few rows for regression");
+    }
+
+    const ys: number[] = rows.map((i) => observed[i] as number);
+    const [intercept, ...coefficients] = leastSquares(
+      ys,
+      rows.map((i) => explanatory.map((v) => v[i] as number)),
+    );
+    const fitted = (i: number): number =>
+      xs.reduce(
+        (s, _, k) => s + coefficients[k] * (explanatory[k][i] as number),
+        intercept,
+      );
+
+    // Residuals of rows used, missing for other rows
+    const residuals: Array<number | undefined> = this.index.map(() =>
+      undefined
+    );
+    rows.forEach((i) => residuals[i] = (observed[i] as number) - fitted(i));
+    const mean: number = avg(ys);
+    const total: number = ys.reduce((s, v) => s + (v - mean) ** 2, 0);
+    const error: number = rows.reduce(
+      (s, i) => s + (residuals[i] as number) ** 2,
+      0,
+    );
+
+    return {
+      coefficients: new DataFrame({
+        Name: new TextSeries(["intercept", ...xs]),
+        Coefficient: new Series([intercept, ...coefficients]),
+      }),
+      intercept,
+      r2: 1 - error / total,
+      residuals: new Series(residuals),
+    };
+  }
+
+  /** Present numbers in column in order of index */
+  private numbers(name: string): number[] {
+    const column: Column = this.columns[name];
+    if (column instanceof FloatSeries) return column.gather(this.index);
+    return this.list<number>(name).filter((n) => !missing(n));
+  }
+
   /** Generate new number series based on existing named series */
   private generate(name: string, callback: (n: number) => number): Series {
-    const current = this.columns[name].values as Array<number>;
+    const column: Column = this.columns[name];
+    if (column instanceof FloatSeries) return column.map(callback, this.index);
+    const current = column.values as Array<number>;
     const values = Array<number>(current.length);
     for (const i of this.index) {
       if (current[i] != undefined) values[i] = callback(current[i]);
@@ -159,8 +802,31 @@ export class DataFrame {
     return new Series(values);
   }
 
+  /** Store number columns in typed arrays for faster arithmetic */
+  public typed(names: Array<Name<Row>> = this.names): DataFrame<Row> {
+    const columns: Columns = { ...this.columns };
+    names.forEach((name) => {
+      const column: Column = this.columns[name];
+      if (column instanceof Series && !(column instanceof FloatSeries)) {
+        columns[name] = FloatSeries.from(column.values);
+      }
+    });
+    return new DataFrame<Row>(columns, this.index);
+  }
+
+  /** Store strings in column as codes of categories, optionally in declared order */
+  public categorize(name: Name<Row>, categories?: string[]): DataFrame<Row> {
+    return this.replace(
+      name,
+      CategorySeries.from(this.columns[name].values as string[], categories),
+    );
+  }
+
   /** Reduce count of significant digits */
-  public digits(units: number, names: string[] = this.names): DataFrame {
+  public digits(
+    units: number,
+    names: Array<Name<Row>> = this.names,
+  ): DataFrame<Row> {
     const columns: Columns = {};
     names.forEach((name) => {
       const column: Column = this.column(name);
@@ -169,116 +835,834 @@ export class DataFrame {
         ? this.generate(name, (n) => parseFloat(n.toFixed(units)))
         : column;
     });
-    return new DataFrame(columns, this.index);
+    return new DataFrame<Row>(columns, this.index);
   }
 
-  /** Sort rows by columns */
-  public sort(colname: string, ascending: boolean = true): DataFrame {
+  /** Sort rows by values in one column */
+  public sort(
+    colname: Name<Row>,
+    ascending: boolean = true,
+  ): DataFrame<Row> {
     // Confirm column exist
     if (!(colname in this.columns)) return this;
-    const index: Index = this.index;
-    const value: SeriesTypes[] = this.column(colname).values;
-    const zip: Array<SortElement> = index.map((i: number) => [i, value[i]]);
-    const sorted: Array<SortElement> = ascending
-      ? zip.sort((a, b) => (a[1] || 0) < (b[1] || 0) ? -1 : 1)
-      : zip.sort((a, b) => (a[1] || 0) > (b[1] || 0) ? -1 : 1);
-    const order: Index = sorted.map((a: SortElement) => a[0]);
+    return this.sortBy([{ name: colname, ascending }]);
+  }
+
+  /** Stable sort of rows by values in columns, first key has priority */
+  public sortBy(keys: Array<SortKey<Row>>): DataFrame<Row> {
+    const comparators: Array<(a: number, b: number) => number> = keys.map(
+      ({ name, ascending = true, nulls = "last", locale, compare }) => {
+        if (!(name in this.columns)) {
+          throw new Error(`Column ${name} does not exist`);
+        }
+        // Declared order of categories
+        const column: Column = this.columns[name];
+        const values: RowValues =
+          column instanceof CategorySeries && column.ordered && !compare
+            ? Array.from(column.codes, (c) => c < 0 ? undefined : c)
+            : column.values;
+        const collator = new Intl.Collator(locale);
+        const order = compare ??
+          ((a: SeriesTypes, b: SeriesTypes) =>
+            typeof a === "string" && typeof b === "string"
+              ? collator.compare(a, b)
+              : (a as number) < (b as number)
+              ? -1
+              : (a as number) > (b as number)
+              ? 1
+              : 0);
+        const direction: number = ascending ? 1 : -1;
+        const placement: number = nulls === "first" ? -1 : 1;
+        return (i: number, j: number): number => {
+          const a: SeriesTypes = values[i];
+          const b: SeriesTypes = values[j];
+          if (missing(a)) return missing(b) ? 0 : placement;
+          if (missing(b)) return -placement;
+          return direction * order(a, b);
+        };
+      },
+    );
+    const order: Index = this.index.slice().sort((i, j) => {
+      for (const comparator of comparators) {
+        const result: number = comparator(i, j);
+        if (result) return result;
+      }
+      return 0;
+    });
     return this.reindex(order);
   }
 
   /** Generate a new column from existing columns */
-  public amend<SeriesTypes>(name: string, callback: RowCallback): DataFrame {
+  public amend<N extends string, V extends SeriesTypes>(
+    name: N,
+    callback: (row: Row) => V,
+  ): DataFrame<Amended<Row, N, V>> {
     const array = Array(this.length);
     for (const index of this.index) {
       const row = this.record(index);
       const value = callback(row);
       array[index] = value;
     }
-    const ser = series(array);
-    return new DataFrame(
+    const ser = autoSeries(array);
+    return new DataFrame<Amended<Row, N, V>>(
       Object.assign({}, this.columns, { [name]: ser }),
       this.index,
     );
   }
 
   /** Rearrange order of rows */
-  private reindex(index: Index): DataFrame {
-    return new DataFrame(this.columns, index);
+  private reindex(index: Index): DataFrame<Row> {
+    return new DataFrame<Row>(this.columns, index);
+  }
+
+  /** Does index list all rows in order of storage */
+  private get natural(): boolean {
+    const length: number = this.names.length
+      ? this.columns[this.names[0]].length
+      : 0;
+    return this.index.length === length && this.index.every((v, i) => v === i);
+  }
+
+  /** Column with values in order of index, for vectorized arithmetic */
+  public col<K extends Name<Row>>(name: K): SeriesOf<Row[K]> {
+    if (!(name in this.columns)) {
+      throw new Error(`Column ${name} does not exist`);
+    }
+    const column: Column = this.columns[name];
+    if (this.natural) return column as SeriesOf<Row[K]>;
+    if (column instanceof CategorySeries) {
+      return column.take(this.index) as SeriesOf<Row[K]>;
+    }
+    return likeSeries(column, this.list(name)) as SeriesOf<Row[K]>;
+  }
+
+  /** Named number column with values in order of index */
+  public num(name: Name<Row>): Series {
+    const column: Column = this.col(name);
+    if (!(column instanceof Series)) {
+      throw new Error(`Column ${name} is not numeric`);
+    }
+    return column;
+  }
+
+  /** Add or replace columns with series having values in order of index */
+  public assign<const A extends Record<string, Column>>(
+    series: A,
+  ): DataFrame<Assigned<Row, A>> {
+    const columns: Columns = { ...this.columns };
+    Object.entries(series).forEach(([name, column]) => {
+      if (column.length !== this.length) {
+        throw new Error(
+          `Series ${name} has length ${column.length} instead of ${this.length}`,
+        );
+      }
+      columns[name] = this.natural
+        ? column
+        : this.spread(column.values, column);
+    });
+    return new DataFrame<Assigned<Row, A>>(columns, this.index);
+  }
+
+  /** Select rows where mask is true, mask values in order of index */
+  public filter(mask: BoolSeries): DataFrame<Row> {
+    if (mask.length !== this.length) {
+      throw new Error(
+        `Mask has length ${mask.length} instead of ${this.length}`,
+      );
+    }
+    const keep: boolean[] = mask.values;
+    return this.reindex(this.index.filter((_, n) => keep[n] === true));
   }
 
   /** Select only matching rows */
-  public select(callback: RowCallback): DataFrame {
+  public select(callback: RowCallback<Row>): DataFrame<Row> {
     return this.reindex(
       this.index.filter((index: number) => callback(this.record(index))),
     );
   }
 
+  /** Add rows from records. Values in existing columns must match type of
+   * column, values of mixed types can only be added to object columns.
+   */
+  public append(records: RowRecords): DataFrame<Row & RowRecord> {
+    const added: DataFrame = DataFrame.fromRecords(records);
+    const columns: Columns = { ...added.columns };
+    this.names.forEach((name) => {
+      const column: Column = this.columns[name];
+      const values: RowValues = records.map((r) => r[name]);
+      if (!(column instanceof ObjectSeries)) {
+        const type: ColumnTypeName = typeName(column);
+        values.forEach((value, row) => {
+          if (!matches(value, type)) {
+            throw new Error(
+              `Value ${value} in record ${row} is not ${type} as column ${name}`,
+            );
+          }
+        });
+      }
+      columns[name] = likeSeries(column, values);
+    });
+    return DataFrame.concat([this, new DataFrame(columns)]) as DataFrame<
+      Row & RowRecord
+    >;
+  }
+
+  /** Select rows matching expression, such as "price > 10 && qty < 5" */
+  public query(expression: string): DataFrame<Row> {
+    return this.select(compile(expression, this.names));
+  }
+
+  /** Generate a new column from expression, such as "total = price * qty" */
+  public eval(expression: string): DataFrame<Row & RowRecord> {
+    const [name, callback] = compileAssignment(expression, this.names);
+    return this.amend(name, callback) as DataFrame<Row & RowRecord>;
+  }
+
   /** Rows in reverse order */
-  public get reverse(): DataFrame {
+  public get reverse(): DataFrame<Row> {
     return this.reindex(this.index.slice().reverse());
   }
 
   /** Slice each column */
-  public slice(start: number, end: number): DataFrame {
+  public slice(start: number, end: number): DataFrame<Row> {
     return this.reindex(this.index.slice(start, end));
   }
 
   /** Rows in random order */
-  public get shuffle(): DataFrame {
-    return this.reindex(shuffleArray(this.index));
+  public get shuffle(): DataFrame<Row> {
+    return this.shuffled();
+  }
+
+  /** Rows in random order, reproducible with seed */
+  public shuffled(seed?: number): DataFrame<Row> {
+    return this.reindex(shuffled(this.index, generator(seed)));
+  }
+
+  /** Random selection of rows, in order selected */
+  public sample(options: SampleOptions<Row> = {}): DataFrame<Row> {
+    const { replace = false, weights } = options;
+    const count: number = options.fraction === undefined
+      ? options.n ?? 1
+      : Math.round(options.fraction * this.length);
+    if (!replace && count > this.length) {
+      throw new Error(
+        `Cannot sample ${count} of ${this.length} rows without replacement`,
+      );
+    }
+    const w = typeof weights === "string"
+      ? this.list<number | undefined>(weights)
+      : weights;
+    if (w && w.length !== this.length) {
+      throw new Error(`Expected ${this.length} weights, got ${w.length}`);
+    }
+
+    const index: Index = choose(
+      this.length,
+      count,
+      replace,
+      generator(options.seed),
+      w,
+    ).map((p) => this.index[p]);
+    if (!replace) return this.reindex(index);
+
+    // A row selected more than once needs its own values
+    const columns: Columns = {};
+    Object.entries(this.columns).forEach(([name, column]) => {
+      const values = column.values as RowValues;
+      columns[name] = likeSeries(column, index.map((i) => values[i]));
+    });
+    return new DataFrame<Row>(columns);
+  }
+
+  /** Index in random order, with rows of same stratum adjacent */
+  private strata(rng: RandomGenerator, stratify?: string): Index[] {
+    if (stratify === undefined) return [shuffled(this.index, rng)];
+    if (!(stratify in this.columns)) {
+      throw new Error(`Column ${stratify} does not exist`);
+    }
+    const groups = new Map<unknown, Index>();
+    this.index.forEach((i) => {
+      const key: unknown = this.key([stratify], i);
+      const group: Index | undefined = groups.get(key);
+      if (group) group.push(i);
+      else groups.set(key, [i]);
+    });
+    return [...groups.values()].map((group) => shuffled(group, rng));
+  }
+
+  /** Rows of index kept in original order */
+  private subset(index: Index): DataFrame<Row> {
+    const keep = new Set<number>(index);
+    return this.reindex(this.index.filter((i) => keep.has(i)));
+  }
+
+  /** Random split into training rows and test rows.
+   * Fraction of rows for training is taken from each stratum.
+   */
+  public trainTestSplit(
+    fraction: number,
+    options: SplitOptions<Row> = {},
+  ): [DataFrame<Row>, DataFrame<Row>] {
+    if (fraction < 0 || fraction > 1) {
+      throw new Error(`Fraction ${fraction} is not between 0 and 1`);
+    }
+    const train: Index = [];
+    const test: Index = [];
+    this.strata(generator(options.seed), options.stratify).forEach((group) => {
+      const count: number = Math.round(fraction * group.length);
+      train.push(...group.slice(0, count));
+      test.push(...group.slice(count));
+    });
+    return [this.subset(train), this.subset(test)];
+  }
+
+  /** Random split into k folds of training rows and test rows.
+   * Each row is in test rows of exactly one fold.
+   */
+  public kFold(
+    k: number,
+    options: SplitOptions<Row> = {},
+  ): Array<[DataFrame<Row>, DataFrame<Row>]> {
+    if (!Number.isInteger(k) || k < 2 || k > this.length) {
+      throw new Error(`Cannot split ${this.length} rows into ${k} folds`);
+    }
+    // Deal rows to folds in turn, continuing across strata
+    const folds: Index[] = Array.from({ length: k }, () => []);
+    this.strata(generator(options.seed), options.stratify)
+      .flat()
+      .forEach((i, n) => folds[n % k].push(i));
+    return folds.map((test, f) => [
+      this.subset(folds.filter((_, g) => g !== f).flat()),
+      this.subset(test),
+    ]);
   }
 
   /** Combine with series from other DataFrame */
-  public join(other: DataFrame): DataFrame {
-    return new DataFrame(Object.assign({}, this.columns, other.columns));
+  public join<O extends RowRecord>(other: DataFrame<O>): DataFrame<Row & O> {
+    return new DataFrame<Row & O>(
+      Object.assign({}, this.columns, other.columns),
+    );
   }
 
   /** Rename columns */
-  public rename(names: Record<string, string>): DataFrame {
+  public rename<const M extends Partial<Record<Name<Row>, string>>>(
+    names: M,
+  ): DataFrame<Renamed<Row, M>> {
+    const map = names as Record<string, string>;
     const columns: Columns = {};
     Object.entries(this.columns).forEach(([from, column]) => {
-      const to: string = from in names ? names[from] : from;
+      const to: string = from in map ? map[from] : from;
       columns[to] = column;
     });
-    return new DataFrame(columns, this.index);
+    return new DataFrame<Renamed<Row, M>>(columns, this.index);
   }
 
   /** Replace existing column with new */
-  private replace(name: string, column: Column): DataFrame {
+  private replace(name: string, column: Column): DataFrame<Row> {
     const columns: Columns = { ...this.columns };
     columns[name] = column;
-    return new DataFrame(columns, this.index);
+    return new DataFrame<Row>(columns, this.index);
   }
 
   /** Generate new numeric series where each value is derived from existing series */
-  private derive(name: string, callback: (n: number) => number): DataFrame {
+  private derive(
+    name: string,
+    callback: (n: number) => number,
+  ): DataFrame<Row> {
     return this.replace(name, this.generate(name, callback));
   }
 
   /** Scale values in column to sum of 1 */
-  public distribute(name: string): DataFrame {
-    const numbers = this.values<number>(name).filter((n) => isFinite(n));
+  public distribute(name: Name<Row>): DataFrame<Row> {
+    const numbers = this.numbers(name).filter((n) => isFinite(n));
     const sum = numbers.reduce((s, a) => s + a, 0);
     return this.derive(name, (n) => n / sum);
   }
 
   /** Take log of each value in column */
-  public log(name: string): DataFrame {
+  public log(name: Name<Row>): DataFrame<Row> {
     return this.derive(name, (n) => Math.log(n));
   }
 
   /** Scale values in column by factor */
-  public scale(name: string, factor: number): DataFrame {
+  public scale(name: Name<Row>, factor: number): DataFrame<Row> {
     return this.derive(name, (n) => n * factor);
   }
 
   /** Add operand to values in column */
-  public add(name: string, operand: number): DataFrame {
+  public add(name: Name<Row>, operand: number): DataFrame<Row> {
     return this.derive(name, (n) => n + operand);
   }
 
+  /** Transform applied to this dataframe, and transform for other dataframes */
+  private fitted<R extends RowRecord, T extends Transform>(
+    transform: T,
+  ): [DataFrame<R>, T] {
+    return [transform.apply(this) as DataFrame<R>, transform];
+  }
+
+  /** Scale numbers in named columns with center and scale fitted per column */
+  private scaled(names: Array<Name<Row>>, fit: ScalingFit): [
+    DataFrame<Row>,
+    Scaler,
+  ] {
+    return this.fitted(Scaler.fit(this, names, fit));
+  }
+
+  /** Numbers in named columns scaled to mean 0 and standard deviation 1 */
+  public standardize(names: Array<Name<Row>>): [DataFrame<Row>, Scaler] {
+    return this.scaled(names, (s) => [s.mean, s.std]);
+  }
+
+  /** Numbers in named columns scaled to range, default 0 to 1 */
+  public minMaxScale(
+    names: Array<Name<Row>>,
+    range: [number, number] = [0, 1],
+  ): [DataFrame<Row>, Scaler] {
+    const [low, high] = range;
+    return this.scaled(names, (s) => {
+      const { min, max } = s;
+      if (min === undefined || max === undefined) return [undefined, undefined];
+      if (min === max) return [min - low, 1];
+      const scale: number = (max - min) / (high - low);
+      return [min - low * scale, scale];
+    });
+  }
+
+  /** Numbers in named columns centered on median and scaled by interquartile
+   * range, which is less sensitive to outliers than standardize
+   */
+  public robustScale(names: Array<Name<Row>>): [DataFrame<Row>, Scaler] {
+    return this.scaled(names, (s) => {
+      const q1 = s.quantile(0.25);
+      const q3 = s.quantile(0.75);
+      return [s.median, q1 === undefined ? q1 : (q3 as number) - q1];
+    });
+  }
+
+  /** Text or boolean column replaced by a number column for each category */
+  public oneHot(
+    name: Name<Row>,
+    options: OneHotOptions = {},
+  ): [DataFrame, OneHotEncoder] {
+    return this.fitted(OneHotEncoder.fit(this, name, options));
+  }
+
+  /** Text or boolean column replaced by position of value in sorted labels */
+  public labelEncode<K extends Name<Row>>(
+    name: K,
+  ): [DataFrame<Amended<Row, K, number | undefined>>, LabelEncoder] {
+    return this.fitted(LabelEncoder.fit(this, name));
+  }
+
+  /** Add number column derived from values of another column in order of index */
+  private window(
+    name: string,
+    target: string,
+    callback: (values: Array<number | undefined>) => Array<number | undefined>,
+  ): DataFrame<Row & RowRecord> {
+    if (!(name in this.columns)) {
+      throw new Error(`Column ${name} does not exist`);
+    }
+    const derived = callback(this.list<number | undefined>(name));
+    return this.ordered(target, derived, new Series());
+  }
+
+  /** Series of same class as template, with values listed in order of index */
+  private spread(values: RowValues, template: Column): Column {
+    const array: RowValues = Array(
+      Math.max(0, ...this.names.map((n) => this.columns[n].length)),
+    );
+    this.index.forEach((i, n) => array[i] = values[n]);
+    return likeSeries(template, array);
+  }
+
+  /** Replace column with values listed in order of index */
+  private ordered(
+    name: string,
+    values: RowValues,
+    template: Column,
+  ): DataFrame<Row> {
+    return this.replace(name, this.spread(values, template));
+  }
+
+  /** Apply function to moving window of rows */
+  public rolling(
+    name: Name<Row>,
+    window: number,
+    fn: WindowFunction = "mean",
+    options: WindowOptions = {},
+  ): DataFrame<Row & RowRecord> {
+    const { minPeriods = window, target = name + "_rolling" } = options;
+    return this.window(
+      name,
+      target,
+      (values) => rolling(values, window, fn, minPeriods),
+    );
+  }
+
+  /** Apply function to all rows up to each row */
+  public expanding(
+    name: Name<Row>,
+    fn: WindowFunction = "mean",
+    options: WindowOptions = {},
+  ): DataFrame<Row & RowRecord> {
+    const { minPeriods = 1, target = name + "_expanding" } = options;
+    return this.window(
+      name,
+      target,
+      (values) => rolling(values, Infinity, fn, minPeriods),
+    );
+  }
+
+  /** Cumulative sum */
+  public cumsum(
+    name: Name<Row>,
+    options: TargetOptions = {},
+  ): DataFrame<Row & RowRecord> {
+    const { target = name + "_cumsum" } = options;
+    return this.window(name, target, (v) => cumulative(v, (t, a) => t + a));
+  }
+
+  /** Cumulative product */
+  public cumprod(
+    name: Name<Row>,
+    options: TargetOptions = {},
+  ): DataFrame<Row & RowRecord> {
+    const { target = name + "_cumprod" } = options;
+    return this.window(name, target, (v) => cumulative(v, (t, a) => t * a));
+  }
+
+  /** Cumulative maximum */
+  public cummax(
+    name: Name<Row>,
+    options: TargetOptions = {},
+  ): DataFrame<Row & RowRecord> {
+    const { target = name + "_cummax" } = options;
+    return this.window(name, target, (v) => cumulative(v, Math.max));
+  }
+
+  /** Cumulative minimum */
+  public cummin(
+    name: Name<Row>,
+    options: TargetOptions = {},
+  ): DataFrame<Row & RowRecord> {
+    const { target = name + "_cummin" } = options;
+    return this.window(name, target, (v) => cumulative(v, Math.min));
+  }
+
+  /** Values from count of rows earlier, or later if periods is negative */
+  public shift(
+    name: Name<Row>,
+    periods: number = 1,
+    options: TargetOptions = {},
+  ): DataFrame<Row & RowRecord> {
+    const { target = name + "_shift" } = options;
+    return this.window(name, target, (v) => shift(v, periods));
+  }
+
+  /** Difference to value count of rows earlier */
+  public diff(
+    name: Name<Row>,
+    periods: number = 1,
+    options: TargetOptions = {},
+  ): DataFrame<Row & RowRecord> {
+    const { target = name + "_diff" } = options;
+    return this.window(
+      name,
+      target,
+      (v) => difference(v, periods, (c, p) => c - p),
+    );
+  }
+
+  /** Relative change from value count of rows earlier */
+  public pctChange(
+    name: Name<Row>,
+    periods: number = 1,
+    options: TargetOptions = {},
+  ): DataFrame<Row & RowRecord> {
+    const { target = name + "_pct_change" } = options;
+    return this.window(
+      name,
+      target,
+      (v) => difference(v, periods, (c, p) => c / p - 1),
+    );
+  }
+
+  /** Add column with bin of each number in named column.
+   * Edges are fitted from numbers in column. When inclusive, outermost edges
+   * are in bins.
+   */
+  private binned(
+    name: string,
+    fit: (numbers: number[]) => number[],
+    inclusive: boolean,
+    options: CutOptions,
+  ): DataFrame<Row & RowRecord> {
+    if (!(name in this.columns)) {
+      throw new Error(`Column ${name} does not exist`);
+    }
+    const { right = true, target = name + "_bin" } = options;
+    const numbers: number[] = this.numbers(name);
+    const edges: number[] = validEdges(fit(numbers));
+    const labels: string[] = options.labels ?? intervals(edges, right);
+    if (labels.length !== edges.length - 1) {
+      throw new Error(
+        `Expected ${edges.length - 1} labels, got ${labels.length}`,
+      );
+    }
+    const bins: RowValues = this.list<number>(name).map((v) => {
+      const bin = missing(v) ? undefined : locate(v, edges, right, inclusive);
+      return bin === undefined ? undefined : labels[bin];
+    });
+    const text = this.spread(bins, new TextSeries()).values as string[];
+    return this.replace(target, CategorySeries.from(text, labels));
+  }
+
+  /** Add categorical column with bin of each number in named column.
+   * Bins are given by edges, or by count of bins of equal width spanning
+   * numbers. Numbers outside edges have no bin.
+   */
+  public cut(
+    name: Name<Row>,
+    bins: number | number[],
+    options: CutOptions = {},
+  ): DataFrame<Row & RowRecord> {
+    return this.binned(
+      name,
+      typeof bins === "number" ? (n) => equalWidth(n, bins) : () => bins,
+      typeof bins === "number",
+      options,
+    );
+  }
+
+  /** Add categorical column with bin of each number in named column.
+   * Bins have edges at quantiles, either count of bins of equal size, or
+   * list of quantiles from 0 to 1.
+   */
+  public qcut(
+    name: Name<Row>,
+    quantiles: number | number[],
+    options: CutOptions = {},
+  ): DataFrame<Row & RowRecord> {
+    return this.binned(name, (n) => quantileEdges(n, quantiles), true, options);
+  }
+
+  /** Count of numbers in each bin, and bar of proportional length.
+   * Bins are given by edges, or count of bins of equal width spanning
+   * numbers, default 10. Bins include start and exclude end, except last bin.
+   */
+  public histogram(
+    name: Name<Row>,
+    bins: number | number[] = 10,
+    options: HistogramOptions = {},
+  ): DataFrame {
+    const { width = 40 } = options;
+    const numbers: number[] = this.numbers(name);
+    const edges: number[] = validEdges(
+      typeof bins === "number" ? equalWidth(numbers, bins) : bins,
+    );
+    const counts: number[] = Array(edges.length - 1).fill(0);
+    numbers.forEach((n) => {
+      const bin: number | undefined = locate(n, edges, false, true);
+      if (bin !== undefined) counts[bin]++;
+    });
+    const largest: number = Math.max(...counts);
+    return new DataFrame({
+      start: new Series(edges.slice(0, -1)),
+      end: new Series(edges.slice(1)),
+      count: new Series(counts),
+      bar: new TextSeries(counts.map((c) => bar(c, largest, width))),
+    });
+  }
+
+  /** Are values in column missing, in order of rows */
+  public isMissing(name: Name<Row>): BoolSeries {
+    if (!(name in this.columns)) {
+      throw new Error(`Column ${name} does not exist`);
+    }
+    return new BoolSeries(this.list(name).map(missing));
+  }
+
+  /** Remove rows having missing values in any or all of named columns */
+  public dropMissing(options: DropMissingOptions = {}): DataFrame<Row> {
+    const { names = this.names, how = "any" } = options;
+    const columns: RowValues[] = names.map((n) => {
+      if (!(n in this.columns)) throw new Error(`Column ${n} does not exist`);
+      return this.columns[n].values;
+    });
+    return this.reindex(
+      this.index.filter((i) =>
+        how === "any"
+          ? !columns.some((values) => missing(values[i]))
+          : !columns.every((values) => missing(values[i]))
+      ),
+    );
+  }
+
+  /** Positions of rows in order of index, grouped by identity of values in
+   * named columns. Groups are in order of first occurrence.
+   */
+  private occurrences(names: ColumnNames): Map<unknown, number[]> {
+    names.forEach((n) => {
+      if (!(n in this.columns)) throw new Error(`Column ${n} does not exist`);
+    });
+    const columns: RowValues[] = names.map((n) => this.columns[n].values);
+    const groups = new Map<unknown, number[]>();
+    this.index.forEach((i, position) => {
+      const id: unknown = columns.length === 1
+        ? canonical(columns[0][i])
+        : JSON.stringify(columns.map((values) => canonical(values[i]) ?? null));
+      const group: number[] | undefined = groups.get(id);
+      if (group) group.push(position);
+      else groups.set(id, [position]);
+    });
+    return groups;
+  }
+
+  /** Is each row a duplicate of another row, in order of index.
+   * Compares values in named columns. Missing values are equal to each other.
+   */
+  public duplicated(
+    subset: Array<Name<Row>> = this.names,
+    keep: KeepDuplicates = "first",
+  ): BoolSeries {
+    const flags: boolean[] = Array(this.length).fill(false);
+    this.occurrences(subset).forEach((positions) => {
+      if (positions.length < 2) return;
+      const kept: number | undefined = keep === "first"
+        ? positions[0]
+        : keep === "last"
+        ? positions[positions.length - 1]
+        : undefined;
+      positions.forEach((p) => flags[p] = p !== kept);
+    });
+    return new BoolSeries(flags);
+  }
+
+  /** Remove duplicate rows, keeping first, last or none of each */
+  public dropDuplicates(
+    options: DropDuplicatesOptions<Row> = {},
+  ): DataFrame<Row> {
+    const { subset = this.names, keep = "first" } = options;
+    return this.filter(this.duplicated(subset, keep).not());
+  }
+
+  /** Distinct values in column in order of first occurrence.
+   * Missing values are included once as undefined.
+   */
+  public unique<K extends Name<Row>>(name: K): Array<Row[K]> {
+    const groups: number[][] = [...this.occurrences([name]).values()];
+    const values: RowValues = this.columns[name].values;
+    return groups.map((positions) => {
+      const value: SeriesTypes = values[this.index[positions[0]]];
+      return missing(value) ? undefined : value;
+    }) as Array<Row[K]>;
+  }
+
+  /** Count of each distinct value in column, in column "count", or fraction
+   * of rows in column "proportion" if normalized. Missing values are counted
+   * as undefined.
+   */
+  public valueCounts(
+    name: Name<Row>,
+    options: ValueCountsOptions = {},
+  ): DataFrame {
+    const { normalize = false, sort = true } = options;
+    const groups: number[][] = [...this.occurrences([name]).values()];
+    if (sort) groups.sort((a, b) => b.length - a.length);
+    const values: RowValues = this.columns[name].values;
+    const first = (positions: number[]) => values[this.index[positions[0]]];
+    return new DataFrame({
+      [name]: likeSeries(
+        this.columns[name],
+        groups.map((g) => missing(first(g)) ? undefined : first(g)),
+      ),
+      [normalize ? "proportion" : "count"]: new Series(
+        groups.map((g) => normalize ? g.length / this.length : g.length),
+      ),
+    });
+  }
+
+  /** Replace missing values in columns by value or strategy */
+  public fillMissing(fills: Partial<Record<Name<Row>, Fill>>): DataFrame<Row> {
+    const columns: Columns = { ...this.columns };
+    Object.entries(fills).forEach(([name, fill]) => {
+      if (!(name in this.columns)) {
+        throw new Error(`Column ${name} does not exist`);
+      }
+      const values: RowValues = this.list(name);
+      const filled: RowValues = values.slice();
+      if (fill === "forward" || fill === "backward") {
+        const positions: Index = values.map((_, n) => n);
+        if (fill === "backward") positions.reverse();
+        let previous: SeriesTypes = undefined;
+        positions.forEach((n) => {
+          if (missing(values[n])) filled[n] = previous;
+          else previous = values[n];
+        });
+      } else {
+        const replacement: SeriesTypes = fill === "mean"
+          ? new Series(values as number[]).mean
+          : fill === "median"
+          ? new Series(values as number[]).median
+          : fill;
+        values.forEach((v, n) => {
+          if (missing(v)) filled[n] = replacement;
+        });
+      }
+      columns[name] = this.spread(filled, this.columns[name]);
+    });
+    return new DataFrame<Row>(columns, this.index);
+  }
+
+  /** Fill missing numbers by linear interpolation between neighbour rows */
+  public interpolate(
+    name: Name<Row>,
+    method: "linear" = "linear",
+  ): DataFrame<Row> {
+    if (method !== "linear") {
+      throw new Error(`Unknown interpolation method ${method}`);
+    }
+    if (!(name in this.columns)) {
+      throw new Error(`Column ${name} does not exist`);
+    }
+    const values = this.list<number | undefined>(name);
+    const filled = values.slice();
+    let previous: number | undefined = undefined;
+    values.forEach((v, n) => {
+      if (missing(v)) return;
+      if (previous !== undefined && n - previous > 1) {
+        const start = values[previous] as number;
+        const step: number = ((v as number) - start) / (n - previous);
+        for (let m = previous + 1; m < n; m++) {
+          filled[m] = start + step * (m - previous);
+        }
+      }
+      previous = n;
+    });
+    return this.ordered(name, filled, this.columns[name]);
+  }
+
+  /** Values not matching types of columns in header, in order of rows */
+  public validate(header: Header): Array<Violation> {
+    const violations: Array<Violation> = [];
+    Object.entries(header).forEach(([column, expected]) => {
+      if (!(column in this.columns)) {
+        violations.push({ column, expected });
+        return;
+      }
+      this.list<SeriesTypes>(column).forEach((value, row) => {
+        if (!matches(value, expected)) {
+          violations.push({ column, expected, row, value });
+        }
+      });
+    });
+    return violations;
+  }
+
   /** Values and columns names from all series at index */
-  private record(index: number): RowRecord {
+  private record(index: number): Row {
     return Object.assign(
       {},
       ...this.names.map((x) => ({ [x]: this.columns[x].values[index] })),
@@ -286,21 +1670,54 @@ export class DataFrame {
   }
 
   /** Export data to list of records */
-  public get records(): RowRecords {
+  public get records(): Array<Row> {
     return this.index.map((i: number) => this.record(i));
   }
 
+  /** Export data to CSV text */
+  public toCSV(options: CSVWriteOptions = {}): string {
+    const { delimiter = ",", header = true, newline = "\n" } = options;
+    const rows: Array<RowValues> = header
+      ? [this.names, ...this.grid]
+      : this.grid;
+    return formatCSV(rows, delimiter, newline);
+  }
+
+  /** Export data to compact binary layout, rows in order of index */
+  public toBytes(): Uint8Array {
+    return encodeColumns(this.columns, this.index);
+  }
+
+  /** Write binary layout to file */
+  public async save(path: string | URL): Promise<void> {
+    await Deno.writeFile(path, this.toBytes());
+  }
+
+  /** Export data to Arrow IPC, rows in order of index.
+   * Categories are exported as strings and dates as timestamps in UTC.
+   */
+  public toArrowIPC(options: ArrowOptions = {}): Uint8Array {
+    return encodeArrow(this.columns, this.index, options);
+  }
+
   /** Values from all series at index */
   private line(index: number): RowValues {
     return this.names.map((x) => this.columns[x].values[index]);
   }
 
-  /** Values from a series */
-  public values<T>(name: string): Array<T> {
+  /** Values from a series in order of index */
+  private list<T>(name: string): Array<T> {
     const all = this.columns[name].values as Array<T>;
     return this.index.map((i: number) => all[i]);
   }
 
+  /** Values from a series */
+  public values<K extends Name<Row>>(name: K): Array<Row[K]>;
+  public values<T>(name: Name<Row>): Array<T>;
+  public values(name: string): RowValues {
+    return this.list(name);
+  }
+
   /** Export data to matrix */
   public get grid(): Array<RowValues> {
     return this.index.map((i: number) => this.line(i));
@@ -312,7 +1729,7 @@ export class DataFrame {
   }
 
   /** Lookup a particular column */
-  public column(name: string): Column {
+  public column(name: Name<Row>): Column {
     return this.columns[name];
   }
 
@@ -321,33 +1738,154 @@ export class DataFrame {
     return this.index.length;
   }
 
-  /** Pretty print as ascii table */
-  public print(title?: string): DataFrame {
+  /** Summary statistics of each number, text and boolean column */
+  public describe(): DataFrame {
+    const numeric: ColumnNames = this.names.filter((n) =>
+      this.columns[n] instanceof Series
+    );
+    const categorical: ColumnNames = this.names.filter((n) =>
+      this.columns[n] instanceof TextSeries ||
+      this.columns[n] instanceof CategorySeries ||
+      this.columns[n] instanceof BoolSeries
+    );
+
+    // Statistics of numbers
+    const numbers: Record<string, (s: Series) => number | undefined> = {
+      mean: (s) => s.mean,
+      std: (s) => s.std,
+      min: (s) => s.min,
+      "25%": (s) => s.quantile(0.25),
+      "50%": (s) => s.median,
+      "75%": (s) => s.quantile(0.75),
+      max: (s) => s.max,
+    };
+
+    // Statistics of any type of values
+    const others: Record<string, (s: Column) => SeriesTypes> = {
+      count: (s) => s.count,
+    };
+    if (categorical.length) {
+      others.unique = (s) => s.nunique;
+      others.top = (s) => s.mode;
+    }
+
+    const statistics: ColumnNames = [
+      ...Object.keys(others),
+      ...(numeric.length ? Object.keys(numbers) : []),
+    ];
+    const columns: Columns = { Name: new TextSeries(statistics) };
+    numeric.forEach((name) => {
+      const s = new Series(this.list<number>(name));
+      columns[name] = new Series(
+        statistics.map((stat) =>
+          stat in numbers
+            ? numbers[stat](s)
+            : stat === "count"
+            ? s.count
+            : undefined
+        ),
+      );
+    });
+    categorical.forEach((name) => {
+      const s = likeSeries(this.columns[name], this.list(name));
+      columns[name] = new ObjectSeries<object>(
+        statistics.map((stat) =>
+          stat in others ? others[stat](s) : undefined
+        ) as object[],
+      );
+    });
+
+    // Keep original order of columns
+    const ordered: Columns = { Name: columns.Name };
+    this.names
+      .filter((n) => n in columns)
+      .forEach((n) => ordered[n] = columns[n]);
+    return new DataFrame(ordered);
+  }
+
+  /** Text of cells in order of index, elided by options */
+  private cells(options: RenderOptions): Grid {
+    const names: ColumnNames = this.names;
+    return grid(
+      names,
+      names.map((n) => this.columns[n] instanceof Series),
+      this.length,
+      (row, col) => this.columns[names[col]].values[this.index[row]],
+      options,
+    );
+  }
+
+  /** Ascii table with first and last rows, and count of rows and columns */
+  private render(options: RenderOptions, title?: string): string {
+    const cells: Grid = pad(
+      this.cells({ maxRows: 20, maxColumns: 20, maxWidth: 40, ...options }),
+    );
     const table = new Table();
     if (title) table.title = title;
-    table.headers = this.names;
-    table.rows = this.grid;
-    console.log("\n" + table.toString());
+    table.headers = cells.header;
+    table.rows = cells.rows;
+    const [rows, columns] = [this.length, this.names.length];
+    return table.toString() + "\n" +
+      `${rows} row${rows === 1 ? "" : "s"} × ` +
+      `${columns} column${columns === 1 ? "" : "s"}`;
+  }
+
+  /** Ascii table, by default at most 20 rows and 20 columns */
+  public toString(options: RenderOptions = {}): string {
+    return this.render(options);
+  }
+
+  /** Pretty print as ascii table, by default at most 20 rows and 20 columns */
+  public print(title?: string, options: RenderOptions = {}): DataFrame<Row> {
+    console.log("\n" + this.render(options, title));
     return this;
   }
 
-  /** Remove records having numbers deviating by more than a factor of standard deviation of column */
-  public outlier(factor: number): DataFrame {
+  /** Markdown table, by default all rows and columns */
+  public toMarkdown(options: RenderOptions = {}): string {
+    return formatMarkdown(this.cells(options));
+  }
+
+  /** HTML table, by default all rows and columns */
+  public toHTML(options: RenderOptions = {}): string {
+    return formatHTML(this.cells(options));
+  }
+
+  /** Remove records having numbers deviating by more than a factor of standard
+   * deviation of column, or of interquartile range
+   */
+  public outlier(
+    factor: number,
+    options: OutlierOptions = {},
+  ): DataFrame<Row> {
+    const { method = "std" } = options;
+
     // Indices of rows having outliers
     const skip = new Set();
 
     // Loop each column having numerical values
     Object.entries(this.columns).forEach(([name, column]) => {
       if (column.isNumber) {
-        const col = this.values<number>(name);
-        const mean: number = avg(col);
-        const stdv: number = std(col);
+        const col = this.numbers(name);
+        let outlie: (val: number) => boolean;
+        if (method === "iqr") {
+          const s = new Series(col);
+          const q1 = s.quantile(0.25) as number;
+          const q3 = s.quantile(0.75) as number;
+          const range: number = factor * (q3 - q1);
+          outlie = (val) => val < q1 - range || val > q3 + range;
+        } else {
+          const mean: number = avg(col);
+          const stdv: number = std(col);
+          outlie = (val) => Math.abs(mean - val) / stdv > factor;
+        }
+        const values = column instanceof FloatSeries
+          ? column.array
+          : column.values as number[];
 
         // Loop all rows
         this.index.forEach((i) => {
-          const val = column.values[i] as number;
-          const outlie = Math.abs(mean - val) / stdv;
-          if (outlie > factor) skip.add(i);
+          if (outlie(values[i] as number)) skip.add(i);
         });
       }
     });
@@ -355,40 +1893,421 @@ export class DataFrame {
     return this.reindex(trimmed);
   }
 
-  /** Left join columns on matching string values */
+  /** Identity of each row by values in key columns, or position of row
+   * without key columns. Result is position of row in columns.
+   */
+  private keyed(key: ColumnNames): Map<unknown, number> {
+    key.forEach((n) => {
+      if (!(n in this.columns)) throw new Error(`Column ${n} does not exist`);
+    });
+    const rows = new Map<unknown, number>();
+    this.index.forEach((i, n) => {
+      const id: unknown = key.length ? this.key(key, i) : n;
+      if (rows.has(id)) {
+        throw new Error(`Key ${key.join(", ")} is not unique`);
+      }
+      rows.set(id, i);
+    });
+    return rows;
+  }
+
+  /** Rows and values added, removed or changed in other dataframe.
+   * Rows are matched by key columns, or by position without key columns.
+   */
+  public compare<O extends RowRecord>(
+    other: DataFrame<O>,
+    options: CompareOptions = {},
+  ): Comparison {
+    const { key = [], tolerance = 0 } = options;
+    const mine: Map<unknown, number> = this.keyed(key);
+    const theirs: Map<unknown, number> = other.keyed(key);
+    const shared: ColumnNames = this.names.filter((n) => n in other.columns);
+    const schema: SchemaDifference = {
+      added: other.names.filter((n) => !(n in this.columns)),
+      removed: this.names.filter((n) => !(n in other.columns)),
+      changed: shared.flatMap((name) => {
+        const before: string = this.columns[name].constructor.name;
+        const after: string = other.columns[name].constructor.name;
+        return before === after ? [] : [{ name, before, after }];
+      }),
+    };
+
+    // Identity and positions of matching rows
+    const removed: Index = [];
+    const pairs: Array<[unknown, number, number]> = [];
+    mine.forEach((i, id) => {
+      const j: number | undefined = theirs.get(id);
+      if (j === undefined) removed.push(i);
+      else pairs.push([id, i, j]);
+    });
+    const added: Index = [];
+    theirs.forEach((j, id) => {
+      if (!mine.has(id)) added.push(j);
+    });
+
+    // Values of non-key columns differing between pairs
+    const differs = (name: string, [, i, j]: [unknown, number, number]) =>
+      !same(
+        this.columns[name].values[i],
+        other.columns[name].values[j],
+        tolerance,
+      );
+    const columns: ColumnNames = shared.filter((name) =>
+      !key.includes(name) && pairs.some((p) => differs(name, p))
+    );
+    const changed = pairs.filter((p) => columns.some((n) => differs(n, p)));
+
+    const cells: Columns = {};
+    if (key.length) {
+      key.forEach((name) => {
+        const values: RowValues = this.columns[name].values;
+        cells[name] = likeSeries(
+          this.columns[name],
+          changed.map(([, i]) => values[i]),
+        );
+      });
+    } else cells.row = new Series(changed.map(([id]) => id as number));
+    columns.forEach((name) => {
+      const before: RowValues = this.columns[name].values;
+      const after: RowValues = other.columns[name].values;
+      const diff: boolean[] = changed.map((p) => differs(name, p));
+      cells[name + "_old"] = likeSeries(
+        this.columns[name],
+        changed.map(([, i], n) => diff[n] ? before[i] : undefined),
+      );
+      cells[name + "_new"] = likeSeries(
+        other.columns[name],
+        changed.map(([, , j], n) => diff[n] ? after[j] : undefined),
+      );
+    });
+
+    return {
+      added: other.reindex(added),
+      removed: this.reindex(removed),
+      changed: other.reindex(changed.map(([, , j]) => j)),
+      cells: new DataFrame(cells),
+      schema,
+    };
+  }
+
+  /** Same columns and same values in each row. Series classes may differ.
+   * When ignoring order, rows of both are sorted before comparing.
+   */
+  public equals<O extends RowRecord>(
+    other: DataFrame<O>,
+    options: EqualsOptions = {},
+  ): boolean {
+    const { tolerance = 0, ignoreOrder = false } = options;
+    const names: ColumnNames = this.names;
+    if (
+      this.length !== other.length ||
+      names.length !== other.names.length ||
+      names.some((n) => !(n in other.columns))
+    ) {
+      return false;
+    }
+    const keys: Array<SortKey> = names.map((name) => ({
+      name,
+      compare: ascending,
+    }));
+    const a = ignoreOrder ? (this as DataFrame).sortBy(keys) : this;
+    const b = ignoreOrder ? (other as DataFrame).sortBy(keys) : other;
+    return names.every((name) => {
+      const x: RowValues = a.columns[name].values;
+      const y: RowValues = b.columns[name].values;
+      return a.index.every((i, n) => same(x[i], y[b.index[n]], tolerance));
+    });
+  }
+
+  /** Left join columns on matching values in one column */
   public leftJoin(other: DataFrame, name: string): DataFrame {
-    // Names of columns to be inserted
-    const names = other.names.filter((n) => n !== name);
-
-    // Source and target columns of keys
-    const source: string[] = other.column(name).values as string[];
-    const target: string[] = this.column(name).values as string[];
-
-    // Keys to be matched
-    const keys: string[] = other.values<string>(name);
-
-    // Generate lookup of source and target row number for each key
-    const rowmap: Array<[number, number]> = [];
-    keys.forEach((key: string) => {
-      const targetRow: number = target.indexOf(key);
-      if (targetRow > -1) {
-        const sourceRow: number = source.indexOf(key);
-        rowmap.push([sourceRow, targetRow]);
+    return this.merge(other, { on: [name], how: "left" });
+  }
+
+  /** Identity of values in named columns at index, undefined if any missing.
+   * A single string, number or boolean is its own identity.
+   */
+  private key(names: ColumnNames, index: number): unknown {
+    const values: RowValues = names.map((n) => this.columns[n].values[index]);
+    if (values.some(missing)) {
+      return undefined;
+    }
+    if (values.length === 1 && typeof values[0] !== "object") return values[0];
+    return JSON.stringify(values);
+  }
+
+  /** Keys of rows in this and other dataframe from codes of category columns.
+   * Codes of this dataframe are remapped to categories of other dataframe.
+   * Undefined unless all key columns are categories.
+   */
+  private codes(
+    other: DataFrame,
+    leftKeys: ColumnNames,
+    rightKeys: ColumnNames,
+  ): [(i: number) => unknown, (j: number) => unknown] | undefined {
+    const left: Column[] = leftKeys.map((n) => this.columns[n]);
+    const right: Column[] = rightKeys.map((n) => other.columns[n]);
+    if (!categorical(left) || !categorical(right)) return;
+    const sizes: number[] = right.map((c) => c.categories.length);
+    if (sizes.reduce((n, size) => n * size, 1) > Number.MAX_SAFE_INTEGER) {
+      return;
+    }
+    const remaps: Int32Array[] = left.map((c, k) => {
+      const codes = new Map<string, number>(
+        right[k].categories.map((label, code) => [label, code]),
+      );
+      return Int32Array.from(c.categories, (label) => codes.get(label) ?? -1);
+    });
+
+    // Position of combination of codes, undefined if any code is missing
+    const combine = (row: number, remapped: boolean): number | undefined => {
+      let id = 0;
+      for (let k = 0; k < sizes.length; k++) {
+        let code: number = (remapped ? left : right)[k].codes[row];
+        if (remapped && code >= 0) code = remaps[k][code];
+        if (code < 0) return undefined;
+        id = id * sizes[k] + code;
       }
+      return id;
+    };
+    return [(i: number) => combine(i, true), (j: number) => combine(j, false)];
+  }
+
+  /** Join rows of two dataframes having matching values in key columns */
+  public merge(other: DataFrame, options: MergeOptions): DataFrame {
+    const { how = "inner", suffixes = ["_x", "_y"] } = options;
+    const leftKeys: ColumnNames = Array.isArray(options.on)
+      ? options.on
+      : options.on.left;
+    const rightKeys: ColumnNames = Array.isArray(options.on)
+      ? options.on
+      : options.on.right;
+    if (leftKeys.length !== rightKeys.length) {
+      throw new Error("Count of left and right keys differ");
+    }
+    leftKeys.forEach((n) => {
+      if (!(n in this.columns)) throw new Error(`Column ${n} does not exist`);
+    });
+    rightKeys.forEach((n) => {
+      if (!(n in other.columns)) throw new Error(`Column ${n} does not exist`);
     });
 
-    // Copy values from other dataframe to new columns in this dataframe
+    // Category keys are compared by codes, otherwise by values
+    const [leftKey, rightKey] = this.codes(other, leftKeys, rightKeys) ?? [
+      (i: number) => this.key(leftKeys, i),
+      (j: number) => other.key(rightKeys, j),
+    ];
+
+    // Lookup of rows in other dataframe by key
+    const lookup = new Map<unknown, Index>();
+    for (const j of other.index) {
+      const key = rightKey(j);
+      if (key === undefined) continue;
+      const rows = lookup.get(key);
+      if (rows) rows.push(j);
+      else lookup.set(key, [j]);
+    }
+
+    // Pairs of matching rows in left and right dataframes
+    const pairs: Array<[number | undefined, number | undefined]> = [];
+    const matched = new Set<number>();
+    for (const i of this.index) {
+      const key = leftKey(i);
+      const rows = key === undefined ? undefined : lookup.get(key);
+      if (rows) {
+        rows.forEach((j) => {
+          pairs.push([i, j]);
+          matched.add(j);
+        });
+      } else if (how === "left" || how === "outer") pairs.push([i, undefined]);
+    }
+    if (how === "right" || how === "outer") {
+      other.index
+        .filter((j) => !matched.has(j))
+        .forEach((j) => pairs.push([undefined, j]));
+    }
+
+    // Key columns with same name on both sides are only included once
+    const shared: ColumnNames = rightKeys.filter((n, k) => n === leftKeys[k]);
+    const right: ColumnNames = other.names.filter((n) => !shared.includes(n));
+    const clash = (n: string) => this.names.includes(n) && right.includes(n);
+
+    // Categories are gathered by codes when every pair has a row on that side
+    const lefts = pairs.map(([i]) => i);
+    const rights = pairs.map(([, j]) => j);
+    const gather = (column: Column, rows: Array<number | undefined>) =>
+      column instanceof CategorySeries && !rows.includes(undefined)
+        ? column.take(rows as number[])
+        : undefined;
+
     const columns: Columns = {};
-    names.forEach((n) => {
-      const values: SeriesTypes[] = [];
-      const sourceColumn = other.column(n).values;
-      rowmap.forEach(([sourceRow, targetRow]) => {
-        values[targetRow] = sourceColumn[sourceRow];
-      });
-      columns[n] = series(values);
+    this.names.forEach((name) => {
+      const gathered = gather(this.columns[name], lefts);
+      if (gathered) {
+        columns[clash(name) ? name + suffixes[0] : name] = gathered;
+        return;
+      }
+      const values: RowValues = this.columns[name].values;
+      const k: number = leftKeys.indexOf(name);
+      const fill: RowValues = k >= 0 ? other.columns[rightKeys[k]].values : [];
+      const merged: RowValues = pairs.map(([i, j]) =>
+        i !== undefined ? values[i] : fill[j as number]
+      );
+      columns[clash(name) ? name + suffixes[0] : name] = likeSeries(
+        this.columns[name],
+        merged,
+      );
+    });
+    right.forEach((name) => {
+      const gathered = gather(other.columns[name], rights);
+      if (gathered) {
+        columns[clash(name) ? name + suffixes[1] : name] = gathered;
+        return;
+      }
+      const values: RowValues = other.columns[name].values;
+      const merged: RowValues = pairs.map(([_, j]) =>
+        j !== undefined ? values[j] : undefined
+      );
+      columns[clash(name) ? name + suffixes[1] : name] = likeSeries(
+        other.columns[name],
+        merged,
+      );
+    });
+
+    return new DataFrame(columns);
+  }
+
+  /** Spread values of one column into new columns named by another column */
+  public pivot(options: PivotOptions): DataFrame {
+    const { columns: spread, values, aggregate = "first" } = options;
+    const keys: ColumnNames = typeof options.index === "string"
+      ? [options.index]
+      : options.index;
+
+    // One row per combination of keys and name of new column
+    const long: DataFrame = this.groupBy([...keys, spread]).agg({
+      [values]: aggregate,
+    });
+    const keyValues: Array<RowValues> = keys.map((k) => long.values(k));
+    const labels: Array<string | undefined> = long.values(spread)
+      .map((v) => missing(v) ? undefined : String(v));
+    const clash = labels.find((l) => l !== undefined && keys.includes(l));
+    if (clash !== undefined) {
+      throw new Error(`Pivot column ${clash} has same name as index column`);
+    }
+    const cells: RowValues = long.values(values);
+
+    // Row in result for each combination of keys
+    const rows = new Map<string, number>();
+    const first: Index = [];
+    const position: Index = labels.map((_, n) => {
+      const id: string = JSON.stringify(keyValues.map((v) => v[n]));
+      if (!rows.has(id)) {
+        rows.set(id, rows.size);
+        first.push(n);
+      }
+      return rows.get(id) as number;
+    });
+
+    const columns: Columns = {};
+    keys.forEach((k, i) => {
+      columns[k] = likeSeries(
+        long.columns[k],
+        first.map((n) => keyValues[i][n]),
+      );
+    });
+    const spreads: Record<string, RowValues> = {};
+    labels.forEach((label, n) => {
+      if (label === undefined) return;
+      if (!(label in spreads)) spreads[label] = Array(rows.size);
+      spreads[label][position[n]] = cells[n];
+    });
+    Object.entries(spreads).forEach(([label, array]) => {
+      columns[label] = autoSeries(array);
+    });
+    return new DataFrame(columns);
+  }
+
+  /** Unpivot columns into rows of variable names and values */
+  public melt(options: MeltOptions = {}): DataFrame {
+    const {
+      idVars = [],
+      varName = "variable",
+      valueName = "value",
+    } = options;
+    const valueVars: ColumnNames = options.valueVars ??
+      this.names.filter((n) => !idVars.includes(n));
+
+    const columns: Columns = {};
+    idVars.forEach((name) => {
+      const values: RowValues = this.list(name);
+      columns[name] = likeSeries(
+        this.columns[name],
+        valueVars.flatMap(() => values),
+      );
+    });
+    columns[varName] = new TextSeries(
+      valueVars.flatMap((name) => Array(this.length).fill(name)),
+    );
+    columns[valueName] = autoSeries(
+      valueVars.flatMap((name) => this.list(name)),
+    );
+    return new DataFrame(columns);
+  }
+
+  /** Swap rows and columns. Names of columns become a Name column.
+   * Values of an existing Name column become names of columns, otherwise
+   * rows are named "row0", "row1" and so on.
+   */
+  public transpose(): DataFrame {
+    const named: boolean = this.columns.Name instanceof TextSeries;
+    const labels: string[] = named
+      ? this.list<string>("Name")
+      : Array.from(this.index.keys(), (n) => `row${n}`);
+    const names: ColumnNames = this.names.filter((n) => !named || n !== "Name");
+    const columns: Columns = { Name: new TextSeries(names) };
+    this.index.forEach((i, n) => {
+      const label: string = labels[n];
+      if (label in columns) throw new Error(`Label ${label} is not unique`);
+      columns[label] = autoSeries(
+        names.map((name) => this.columns[name].values[i]),
+      );
     });
+    return new DataFrame(columns);
+  }
+
+  /** Aggregate rows in periods of time, such as "1h", "1d" or "1w".
+   * Rows without date are skipped, periods without rows are not included.
+   */
+  public resample(
+    name: Name<Row>,
+    period: Period,
+    aggregations: Aggregations,
+  ): DataFrame {
+    if (!(this.columns[name] instanceof DateSeries)) {
+      throw new Error(`Column ${name} is not a DateSeries`);
+    }
+    const length: number = duration(period);
+    const starts: RowValues = this.list<Date | undefined>(name).map((d) =>
+      missing(d) ? undefined : new Date(
+        Math.floor(((d as Date).getTime() - monday) / length) * length +
+          monday,
+      )
+    );
+    return this.ordered(name, starts, new DateSeries())
+      .dropMissing({ names: [name] })
+      .sort(name)
+      .groupBy([name])
+      .agg(aggregations);
+  }
+
+  /** Record operations in a plan, which is optimized and executed by collect */
+  public lazy(): LazyFrame<Row> {
+    return new LazyFrame<Row>(this);
+  }
 
-    // Return new dataframe with additional columns
-    return this.join(new DataFrame(columns));
+  /** Group rows by values in named columns */
+  public groupBy(names: Array<Name<Row>>): GroupBy {
+    return new GroupBy(this, names);
   }
 }
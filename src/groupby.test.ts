@@ -0,0 +1,74 @@
+import { assertEquals, assertInstanceOf, assertThrows } from "@std/assert";
+import { DataFrame } from "./dataframe.ts";
+import { GroupBy } from "./groupby.ts";
+import { Series, TextSeries } from "./series.ts";
+import type { SeriesTypes } from "./series.ts";
+
+const testdata = [
+  { c: "x", k: 1, n: 1 },
+  { c: "y", k: 1, n: 2 },
+  { c: "x", k: 2, n: 3 },
+  { c: "x", k: 1, n: 4 },
+];
+
+Deno.test("Initialization", () => {
+  const df = DataFrame.fromRecords(testdata);
+  const g = df.groupBy(["c"]);
+  assertInstanceOf(g, GroupBy);
+  assertEquals(g.length, 2);
+});
+
+Deno.test("Unknown column", () => {
+  const df = DataFrame.fromRecords(testdata);
+  // @ts-expect-error: column does not exist
+  assertThrows(() => df.groupBy(["z"]));
+});
+
+Deno.test("Builtin aggregations", () => {
+  const df = DataFrame.fromRecords(testdata);
+  const sum = df.groupBy(["c"]).agg({ n: "sum" });
+  assertEquals(sum.records, [{ c: "x", n: 8 }, { c: "y", n: 2 }]);
+  assertInstanceOf(sum.column("c"), TextSeries);
+  assertInstanceOf(sum.column("n"), Series);
+
+  const g = df.groupBy(["c"]);
+  assertEquals(g.agg({ n: "mean" }).values("n"), [8 / 3, 2]);
+  assertEquals(g.agg({ n: "count" }).values("n"), [3, 1]);
+  assertEquals(g.agg({ n: "min" }).values("n"), [1, 2]);
+  assertEquals(g.agg({ n: "max" }).values("n"), [4, 2]);
+  assertEquals(g.agg({ n: "first" }).values("n"), [1, 2]);
+  assertEquals(g.agg({ n: "last" }).values("n"), [4, 2]);
+  assertEquals(g.agg({ n: "std" }).values("n")[1], undefined);
+});
+
+Deno.test("Multiple keys", () => {
+  const df = DataFrame.fromRecords(testdata);
+  const dg = df.groupBy(["c", "k"]).agg({ n: "sum" });
+  assertEquals(dg.records, [
+    { c: "x", k: 1, n: 5 },
+    { c: "y", k: 1, n: 2 },
+    { c: "x", k: 2, n: 3 },
+  ]);
+  assertInstanceOf(dg.column("k"), Series);
+});
+
+Deno.test("Custom reducer", () => {
+  const df = DataFrame.fromRecords(testdata);
+  const join = (values: SeriesTypes[]) => values.join(",");
+  const dg = df.groupBy(["c"]).agg({ n: join });
+  assertEquals(dg.values("n"), ["1,3,4", "2"]);
+  assertInstanceOf(dg.column("n"), TextSeries);
+});
+
+Deno.test("Respect index", () => {
+  const df = DataFrame.fromRecords(testdata);
+  const dg = df.select((r) => r.k === 1).sort("n", false).groupBy(["c"])
+    .agg({ n: "first" });
+  assertEquals(dg.records, [{ c: "x", n: 4 }, { c: "y", n: 2 }]);
+});
+
+Deno.test("Missing values", () => {
+  const df = DataFrame.fromRecords([{ c: "x", n: 1 }, { c: "x" }]);
+  const dg = df.groupBy(["c"]).agg({ n: "count" });
+  assertEquals(dg.values("n"), [1]);
+});
@@ -0,0 +1,186 @@
+import { DataFrame } from "./dataframe.ts";
+import {
+  autoSeries,
+  CategorySeries,
+  likeSeries,
+  missing,
+  Series,
+} from "./series.ts";
+import type { SeriesClasses, SeriesTypes } from "./series.ts";
+
+/** Custom function reducing all values in a group to one value */
+export type Reducer = (values: Array<SeriesTypes>) => SeriesTypes;
+
+/** Name of builtin reducer or custom reducer */
+export type Aggregation =
+  | "sum"
+  | "mean"
+  | "count"
+  | "min"
+  | "max"
+  | "std"
+  | "first"
+  | "last"
+  | Reducer;
+
+/** Aggregation to apply to each named column */
+export type Aggregations = Record<string, Aggregation>;
+
+type Group = { keys: Array<SeriesTypes>; rows: number[] };
+
+/** Values which are neither undefined nor NaN */
+function present(values: Array<SeriesTypes>): Array<SeriesTypes> {
+  return values.filter((v) => !missing(v));
+}
+
+/** Numbers ignoring missing values */
+function numbers(values: Array<SeriesTypes>): number[] {
+  return present(values).filter((v) => typeof v === "number") as number[];
+}
+
+/** Order of two comparable values */
+function compare(a: SeriesTypes, b: SeriesTypes): number {
+  if (typeof a === "string" && typeof b === "string") {
+    return a.localeCompare(b);
+  }
+  return (a as number) < (b as number)
+    ? -1
+    : (a as number) > (b as number)
+    ? 1
+    : 0;
+}
+
+/** Smallest or largest of comparable values */
+function extreme(values: Array<SeriesTypes>, sign: 1 | -1): SeriesTypes {
+  let best: SeriesTypes = undefined;
+  for (const value of present(values)) {
+    if (best === undefined || sign * compare(value, best) < 0) best = value;
+  }
+  return best;
+}
+
+/** Key of group. A single value which is not an object is its own key. */
+function identity(values: Array<SeriesTypes>): unknown {
+  if (values.length === 1 && typeof values[0] !== "object") {
+    return missing(values[0]) ? undefined : values[0];
+  }
+  return JSON.stringify(values);
+}
+
+/** Groups of rows by combined codes of category columns, in order of first
+ * appearance. Missing values have code -1 and form their own group.
+ */
+function coded(columns: CategorySeries[], length: number): Array<Group> {
+  const groups = new Map<number, Group>();
+  for (let row = 0; row < length; row++) {
+    let id = 0;
+    for (const column of columns) {
+      id = id * (column.categories.length + 1) + column.codes[row] + 1;
+    }
+    const group = groups.get(id);
+    if (group) group.rows.push(row);
+    else {
+      const keys = columns.map(({ codes, categories }) =>
+        codes[row] < 0 ? undefined : categories[codes[row]]
+      );
+      groups.set(id, { keys, rows: [row] });
+    }
+  }
+  return Array.from(groups.values());
+}
+
+/** Builtin reducers */
+const reducers: Record<string, Reducer> = {
+  sum: (values) => numbers(values).reduce((s, a) => s + a, 0),
+  mean: (values) => new Series(numbers(values)).mean,
+  count: (values) => present(values).length,
+  min: (values) => extreme(values, 1),
+  max: (values) => extreme(values, -1),
+  std: (values) => new Series(numbers(values)).std,
+  first: (values) => present(values)[0],
+  last: (values) => present(values).at(-1),
+};
+
+/** Reducers producing same type of values as input */
+const preserving = ["min", "max", "first", "last"];
+
+/** Rows of a DataFrame grouped by values in key columns */
+export class GroupBy {
+  constructor(
+    private readonly frame: DataFrame,
+    private readonly names: string[],
+  ) {
+    names.forEach((name) => {
+      if (!frame.names.includes(name)) {
+        throw new Error(`Column ${name} does not exist`);
+      }
+    });
+  }
+
+  /** Groups of row positions in order of first appearance */
+  private get groups(): Array<Group> {
+    // Category columns are grouped by codes when combinations fit in a number
+    const combinations: number = this.names.reduce((n, name) => {
+      const column = this.frame.column(name);
+      return column instanceof CategorySeries
+        ? n * (column.categories.length + 1)
+        : NaN;
+    }, 1);
+    if (combinations <= Number.MAX_SAFE_INTEGER) {
+      const columns = this.names.map((name) => this.frame.col(name));
+      return coded(columns as CategorySeries[], this.frame.length);
+    }
+
+    const keys: Array<Array<SeriesTypes>> = this.names.map((name) =>
+      this.frame.values<SeriesTypes>(name)
+    );
+    const groups = new Map<unknown, Group>();
+    for (let row = 0; row < this.frame.length; row++) {
+      const values = keys.map((column) => column[row]);
+      const id = identity(values);
+      const group = groups.get(id);
+      if (group) group.rows.push(row);
+      else groups.set(id, { keys: values, rows: [row] });
+    }
+    return Array.from(groups.values());
+  }
+
+  /** Count of groups */
+  public get length(): number {
+    return this.groups.length;
+  }
+
+  /** One row per group with key columns and aggregated columns */
+  public agg(aggregations: Aggregations): DataFrame {
+    const groups: Array<Group> = this.groups;
+    const columns: Record<string, SeriesClasses> = {};
+
+    // Key columns keep series class of source
+    this.names.forEach((name, k) => {
+      const values = groups.map((group) => group.keys[k]);
+      columns[name] = likeSeries(this.frame.column(name), values);
+    });
+
+    // Aggregated columns
+    Object.entries(aggregations).forEach(([name, aggregation]) => {
+      if (!this.frame.names.includes(name)) {
+        throw new Error(`Column ${name} does not exist`);
+      }
+      const all: Array<SeriesTypes> = this.frame.values<SeriesTypes>(name);
+      const reducer: Reducer = typeof aggregation === "function"
+        ? aggregation
+        : reducers[aggregation];
+      if (!reducer) throw new Error(`Unknown aggregation ${aggregation}`);
+      const values: Array<SeriesTypes> = groups.map((group) =>
+        reducer(group.rows.map((row) => all[row]))
+      );
+      columns[name] = typeof aggregation === "string"
+        ? preserving.includes(aggregation)
+          ? likeSeries(this.frame.column(name), values)
+          : new Series(values as number[])
+        : autoSeries(values);
+    });
+
+    return new DataFrame(columns);
+  }
+}
@@ -0,0 +1,94 @@
+import { assert, assertEquals, assertThrows } from "@std/assert";
+import { DataFrame } from "./dataframe.ts";
+import { QueryError } from "./query.ts";
+
+const df = DataFrame.fromRecords([
+  { k: "a", n: 3, m: 1, s: "x" },
+  { k: "b", n: 1, m: 2, s: "y" },
+  { k: "a", n: 2, m: 3, s: "z" },
+  { k: "b", n: 4, m: 4, s: "w" },
+]);
+
+Deno.test("Same result as eager operations", () => {
+  const eager = df
+    .amend("t", (r) => r.n * r.m)
+    .select((r) => r.t > 2)
+    .sort("n", false)
+    .include(["k", "t"])
+    .slice(0, 2);
+  const lazy = df.lazy()
+    .amend("t", (r) => r.n * r.m)
+    .select((r) => r.t > 2)
+    .sort("n", false)
+    .include(["k", "t"])
+    .slice(0, 2);
+  assertEquals(lazy.names, ["k", "t"]);
+  assert(lazy.collect().equals(eager));
+});
+
+Deno.test("Unused columns are not read", () => {
+  let calls = 0;
+  const lazy = df.lazy()
+    .amend("t", () => ++calls)
+    .sort("m", false)
+    .include(["k", "n"]);
+  assertEquals(lazy.collect().records, [
+    { k: "b", n: 4 },
+    { k: "a", n: 2 },
+    { k: "b", n: 1 },
+    { k: "a", n: 3 },
+  ]);
+  assertEquals(calls, 0);
+  assertEquals(
+    lazy.explain(),
+    ["scan k, n, m (3 of 4 columns)", "sort m desc", "include k, n"].join("\n"),
+  );
+});
+
+Deno.test("Filters run early", () => {
+  const lazy = df.lazy()
+    .amend("t", (r) => r.n + 1)
+    .sort("n")
+    .select((r) => r.k === "a")
+    .query("m > 1")
+    .exclude(["s"]);
+  assertEquals(
+    lazy.explain(),
+    [
+      "scan k, n, m, s (4 of 4 columns)",
+      "query m > 1",
+      "amend t",
+      "select callback",
+      "sort n asc",
+      "exclude s",
+    ].join("\n"),
+  );
+  assertEquals(lazy.collect().records, [{ k: "a", n: 2, m: 3, t: 3 }]);
+});
+
+Deno.test("Join and group", () => {
+  const other = DataFrame.fromRecords([
+    { w: 1, u: true },
+    { w: 2, u: false },
+    { w: 3, u: true },
+    { w: 4, u: false },
+  ]);
+  const lazy = df.lazy()
+    .join(other)
+    .groupBy(["k"])
+    .agg({ w: "sum" });
+  assertEquals(
+    lazy.explain(),
+    ["scan k (1 of 4 columns)", "join w", "groupBy k aggregate sum(w)"]
+      .join("\n"),
+  );
+  assertEquals(lazy.collect().records, [{ k: "a", w: 4 }, { k: "b", w: 6 }]);
+});
+
+Deno.test("Invalid query in plan", () => {
+  assertThrows(
+    () => df.lazy().include(["k"]).query("n > 1"),
+    QueryError,
+    "Unknown column n",
+  );
+});
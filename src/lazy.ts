@@ -0,0 +1,279 @@
+import type { DataFrame } from "./dataframe.ts";
+import type { Amended, RowRecord, SortKey } from "./dataframe.ts";
+import type { Aggregations } from "./groupby.ts";
+import { compile, references } from "./query.ts";
+import type { SeriesTypes } from "./series.ts";
+
+/** Names of columns in schema of rows */
+type Name<Row> = keyof Row & string;
+
+type Callback = (row: RowRecord) => SeriesTypes;
+
+/** Operation recorded in a plan */
+type Step =
+  | { op: "select"; callback: Callback }
+  | { op: "query"; expression: string; uses: string[] }
+  | { op: "amend"; name: string; callback: Callback }
+  | { op: "include"; names: string[] }
+  | { op: "exclude"; names: string[] }
+  | { op: "sort"; keys: Array<SortKey> }
+  | { op: "slice"; start: number; end: number }
+  | { op: "join"; other: DataFrame }
+  | { op: "groupBy"; names: string[]; aggregations: Aggregations };
+
+/** Steps to apply to projected columns of source */
+type Plan = { columns: string[]; steps: Step[] };
+
+/** Grouping in a lazy plan, completed by aggregation */
+export type LazyGroupBy = {
+  /** One row per group with key columns and aggregated columns */
+  agg(aggregations: Aggregations): LazyFrame;
+};
+
+/** Names of columns after step */
+function output(names: string[], step: Step): string[] {
+  switch (step.op) {
+    case "amend":
+      return names.includes(step.name) ? names : [...names, step.name];
+    case "include":
+      return step.names;
+    case "exclude":
+      return names.filter((n) => !step.names.includes(n));
+    case "join":
+      return [...new Set([...names, ...step.other.names])];
+    case "groupBy":
+      return [...new Set([...step.names, ...Object.keys(step.aggregations)])];
+    default:
+      return names;
+  }
+}
+
+/** Can filter run before previous step without changing result */
+function passes(filter: Step, previous: Step): boolean {
+  if (filter.op !== "select" && filter.op !== "query") return false;
+  switch (previous.op) {
+    case "sort":
+      return true;
+    case "amend":
+      return filter.op === "query" && !filter.uses.includes(previous.name);
+    // Compiled expressions only read named columns, and are cheaper than callbacks
+    case "include":
+    case "exclude":
+    case "select":
+      return filter.op === "query";
+    default:
+      return false;
+  }
+}
+
+/** Apply step to dataframe */
+function apply(frame: DataFrame, step: Step): DataFrame {
+  switch (step.op) {
+    case "select":
+      return frame.select(step.callback);
+    case "query":
+      return frame.query(step.expression);
+    case "amend":
+      return frame.amend(step.name, step.callback);
+    case "include":
+      return frame.include(step.names);
+    case "exclude":
+      return frame.exclude(step.names);
+    case "sort":
+      return frame.sortBy(step.keys);
+    case "slice":
+      return frame.slice(step.start, step.end);
+    case "join":
+      return frame.join(step.other);
+    case "groupBy":
+      return frame.groupBy(step.names).agg(step.aggregations);
+  }
+}
+
+/** One line description of step */
+function describe(step: Step): string {
+  switch (step.op) {
+    case "select":
+      return "select callback";
+    case "query":
+      return `query ${step.expression}`;
+    case "amend":
+      return `amend ${step.name}`;
+    case "include":
+    case "exclude":
+      return `${step.op} ${step.names.join(", ")}`;
+    case "sort":
+      return "sort " + step.keys
+        .map((k) => `${k.name} ${k.ascending === false ? "desc" : "asc"}`)
+        .join(", ");
+    case "slice":
+      return `slice ${step.start} to ${step.end}`;
+    case "join":
+      return `join ${step.other.names.join(", ")}`;
+    case "groupBy":
+      return `groupBy ${step.names.join(", ")} aggregate ` +
+        Object.entries(step.aggregations)
+          .map(([n, a]) => `${typeof a === "string" ? a : "custom"}(${n})`)
+          .join(", ");
+  }
+}
+
+/** Operations on a dataframe recorded in a plan, executed when collected.
+ * Columns not needed by result are not read, and filters run as early as
+ * possible.
+ */
+export class LazyFrame<Row extends RowRecord = RowRecord> {
+  constructor(
+    // Dataframe at start of plan
+    private readonly source: DataFrame,
+    // Operations in order recorded
+    private readonly steps: Step[] = [],
+  ) {}
+
+  /** New plan with step added */
+  private then<R extends RowRecord>(step: Step): LazyFrame<R> {
+    return new LazyFrame<R>(this.source, [...this.steps, step]);
+  }
+
+  /** Names of columns in result */
+  public get names(): string[] {
+    return this.steps.reduce(output, this.source.names);
+  }
+
+  /** Select only matching rows */
+  public select(callback: (row: Row) => SeriesTypes): LazyFrame<Row> {
+    return this.then({ op: "select", callback: callback as Callback });
+  }
+
+  /** Select rows matching expression, such as "price > 10 && qty < 5" */
+  public query(expression: string): LazyFrame<Row> {
+    compile(expression, this.names);
+    return this.then({ op: "query", expression, uses: references(expression) });
+  }
+
+  /** Generate a new column from existing columns */
+  public amend<N extends string, V extends SeriesTypes>(
+    name: N,
+    callback: (row: Row) => V,
+  ): LazyFrame<Amended<Row, N, V>> {
+    const generate: (row: Row) => SeriesTypes = callback;
+    return this.then({ op: "amend", name, callback: generate as Callback });
+  }
+
+  /** Only named columns */
+  public include<K extends Name<Row>>(
+    names: ReadonlyArray<K>,
+  ): LazyFrame<Pick<Row, K>> {
+    return this.then({ op: "include", names: [...names] });
+  }
+
+  /** All columns except named columns */
+  public exclude<K extends Name<Row>>(
+    names: ReadonlyArray<K>,
+  ): LazyFrame<Omit<Row, K>> {
+    return this.then({ op: "exclude", names: [...names] });
+  }
+
+  /** Sort rows by values in one column */
+  public sort(name: Name<Row>, ascending: boolean = true): LazyFrame<Row> {
+    if (!this.names.includes(name)) return this;
+    return this.sortBy([{ name, ascending }]);
+  }
+
+  /** Stable sort of rows by values in columns, first key has priority */
+  public sortBy(keys: Array<SortKey<Row>>): LazyFrame<Row> {
+    return this.then({ op: "sort", keys: keys as Array<SortKey> });
+  }
+
+  /** Rows from start until end */
+  public slice(start: number, end: number): LazyFrame<Row> {
+    return this.then({ op: "slice", start, end });
+  }
+
+  /** Add columns of other dataframe */
+  public join<O extends RowRecord>(other: DataFrame<O>): LazyFrame<Row & O> {
+    return this.then({ op: "join", other });
+  }
+
+  /** Group rows by values in named columns */
+  public groupBy(names: Array<Name<Row>>): LazyGroupBy {
+    return {
+      agg: (aggregations) => this.then({ op: "groupBy", names, aggregations }),
+    };
+  }
+
+  /** Steps reordered and pruned, and columns of source to read */
+  private get plan(): Plan {
+    // Move filters before steps they commute with
+    const steps: Step[] = this.steps.slice();
+    for (let i = 1; i < steps.length; i++) {
+      for (let j = i; j > 0 && passes(steps[j], steps[j - 1]); j--) {
+        [steps[j - 1], steps[j]] = [steps[j], steps[j - 1]];
+      }
+    }
+
+    // Names of columns before each step
+    const visible: string[][] = [this.source.names];
+    steps.forEach((step, i) => visible.push(output(visible[i], step)));
+
+    // From last step, find columns needed and drop unneeded steps
+    let needed = new Set<string>(visible[steps.length]);
+    const kept: Step[] = [];
+    for (let i = steps.length - 1; i >= 0; i--) {
+      let step: Step = steps[i];
+      switch (step.op) {
+        case "amend":
+          if (!needed.has(step.name)) continue;
+          needed = new Set(visible[i]);
+          break;
+        case "select":
+          needed = new Set(visible[i]);
+          break;
+        case "query":
+          step.uses.forEach((n) => needed.add(n));
+          break;
+        case "sort":
+          step.keys.forEach((k) => needed.add(k.name));
+          break;
+        case "include":
+          step = { ...step, names: step.names.filter((n) => needed.has(n)) };
+          break;
+        case "join": {
+          const right: string[] = step.other.names;
+          step = {
+            ...step,
+            other: step.other.include(right.filter((n) => needed.has(n))),
+          };
+          right.forEach((n) => needed.delete(n));
+          break;
+        }
+        case "groupBy":
+          needed = new Set(output([], step));
+          break;
+      }
+      kept.unshift(step);
+    }
+
+    const columns: string[] = this.source.names.filter((n) => needed.has(n));
+    return { columns, steps: kept };
+  }
+
+  /** Optimized plan, one step per line */
+  public explain(): string {
+    const { columns, steps } = this.plan;
+    const total: number = this.source.names.length;
+    return [
+      `scan ${columns.join(", ")} (${columns.length} of ${total} columns)`,
+      ...steps.map(describe),
+    ].join("\n");
+  }
+
+  /** Execute plan */
+  public collect(): DataFrame<Row> {
+    const { columns, steps } = this.plan;
+    const start: DataFrame = columns.length < this.source.names.length
+      ? this.source.include(columns)
+      : this.source;
+    return steps.reduce(apply, start) as DataFrame<Row>;
+  }
+}
@@ -0,0 +1,74 @@
+import { assertAlmostEquals, assertEquals, assertThrows } from "@std/assert";
+import { DataFrame } from "./dataframe.ts";
+import { LabelEncoder, OneHotEncoder, Scaler } from "./preprocess.ts";
+
+const train = DataFrame.fromRecords([
+  { x: 1, y: 10, c: "b", b: true },
+  { x: 2, y: 10, c: "a", b: false },
+  { x: 3, y: 10, c: "b", b: undefined },
+  { x: 6, y: 10, c: undefined, b: true },
+]);
+
+const test = DataFrame.fromRecords([
+  { x: 4, y: 12, c: "c", b: false },
+  { x: 0, y: 10, c: "a", b: true },
+]);
+
+Deno.test("Standardize", () => {
+  const [scaled, scaler] = train.standardize(["x", "y"]);
+  const x = scaled.col("x");
+  assertAlmostEquals(x.mean as number, 0);
+  assertAlmostEquals(x.std as number, 1);
+  assertEquals(scaled.values("y"), [0, 0, 0, 0]);
+  assertEquals(scaler.parameters.x.center, 3);
+  assertEquals(scaler.apply(test).values("y"), [2, 0]);
+});
+
+Deno.test("Min-max scale", () => {
+  const [scaled, scaler] = train.minMaxScale(["x", "y"], [-1, 1]);
+  assertEquals(scaled.values("x"), [-1, -0.6, -0.2, 1]);
+  assertEquals(scaled.values("y"), [-1, -1, -1, -1]);
+  assertEquals(scaler.apply(test).values("x"), [0.2, -1.4]);
+});
+
+Deno.test("Robust scale", () => {
+  const [scaled, scaler] = train.robustScale(["x"]);
+  assertEquals(scaler.parameters.x, { center: 2.5, scale: 2 });
+  assertEquals(scaled.values("x"), [-0.75, -0.25, 0.25, 1.75]);
+});
+
+Deno.test("Scaling respects index", () => {
+  const [scaled] = train.reverse.slice(0, 2).minMaxScale(["x"]);
+  assertEquals(scaled.values("x"), [1, 0]);
+  assertThrows(() => train.standardize(["c"]), Error, "not numeric");
+});
+
+Deno.test("One-hot encoding", () => {
+  const [encoded, encoder] = train.oneHot("c", { prefix: "is" });
+  assertEquals(encoded.names, ["x", "y", "b", "is_a", "is_b"]);
+  assertEquals(encoded.values("is_b"), [1, 0, 1, undefined]);
+  const applied = encoder.apply(test);
+  assertEquals(applied.values("is_a"), [0, 1]);
+  assertEquals(applied.values("is_b"), [0, 0]);
+
+  const [dropped] = train.oneHot("b", { dropFirst: true });
+  assertEquals(dropped.names, ["x", "y", "c", "b_true"]);
+  assertEquals(dropped.values("b_true"), [1, 0, undefined, 1]);
+  assertThrows(() => train.oneHot("x"), Error, "not text or boolean");
+});
+
+Deno.test("Label encoding", () => {
+  const [encoded, encoder] = train.labelEncode("c");
+  assertEquals(encoder.labels, ["a", "b"]);
+  assertEquals(encoded.values("c"), [1, 0, 1, undefined]);
+  assertEquals(encoder.apply(test).values("c"), [undefined, 0]);
+});
+
+Deno.test("Reapply fitted parameters", () => {
+  const scaler = new Scaler({ x: { center: 1, scale: 2 } });
+  assertEquals(scaler.apply(test).values("x"), [1.5, -0.5]);
+  const onehot = new OneHotEncoder("c", ["a", "c"]);
+  assertEquals(onehot.names, ["c_a", "c_c"]);
+  const labels = new LabelEncoder("b", ["true", "false"]);
+  assertEquals(labels.apply(test).values("b"), [1, 0]);
+});
@@ -0,0 +1,148 @@
+import type { DataFrame } from "./dataframe.ts";
+import {
+  BoolSeries,
+  CategorySeries,
+  missing,
+  Series,
+  TextSeries,
+} from "./series.ts";
+
+/** Transform with parameters fitted on one dataframe, reapplied to others */
+export interface Transform {
+  /** Dataframe with transform applied */
+  apply(frame: DataFrame): DataFrame;
+}
+
+/** Values of named text or boolean column as text, in order of index */
+function texts(frame: DataFrame, name: string): Array<string | undefined> {
+  const column = frame.col(name);
+  if (
+    !(column instanceof TextSeries || column instanceof BoolSeries ||
+      column instanceof CategorySeries)
+  ) {
+    throw new Error(`Column ${name} is not text or boolean`);
+  }
+  return (column.values as Array<string | boolean | undefined>)
+    .map((v) => missing(v) ? undefined : String(v));
+}
+
+/** Distinct values of named column, in order of categories or sorted */
+function distinct(frame: DataFrame, name: string): string[] {
+  const column = frame.col(name);
+  const present = new Set(texts(frame, name).filter((v) => v !== undefined));
+  if (column instanceof CategorySeries) {
+    return column.categories.filter((c) => present.has(c));
+  }
+  return [...present as Set<string>].sort();
+}
+
+/** Center and scale of numbers in a column */
+export type Scaling = { center: number; scale: number };
+
+/** Center and scale fitted from numbers, undefined when no numbers */
+export type ScalingFit = (
+  series: Series,
+) => [number | undefined, number | undefined];
+
+/** Each number is replaced by (number - center) / scale of its column */
+export class Scaler implements Transform {
+  constructor(public readonly parameters: Record<string, Scaling>) {}
+
+  /** Parameters of named columns fitted from their numbers.
+   * Constant columns are only centered.
+   */
+  public static fit(
+    frame: DataFrame,
+    names: string[],
+    fit: ScalingFit,
+  ): Scaler {
+    const parameters: Record<string, Scaling> = {};
+    names.forEach((name) => {
+      const [center, scale] = fit(frame.num(name));
+      parameters[name] = { center: center ?? 0, scale: scale || 1 };
+    });
+    return new Scaler(parameters);
+  }
+
+  public apply(frame: DataFrame): DataFrame {
+    const columns: Record<string, Series> = {};
+    Object.entries(this.parameters).forEach(([name, { center, scale }]) => {
+      columns[name] = frame.num(name).sub(center).div(scale);
+    });
+    return frame.assign(columns);
+  }
+}
+
+/** Options for one-hot encoding */
+export type OneHotOptions = {
+  /** Start of names of new columns, default name of column */
+  prefix?: string;
+
+  /** Leave out column of first category, default false */
+  dropFirst?: boolean;
+};
+
+/** Column replaced by a number column for each category, which is 1 where
+ * value is the category and otherwise 0. Unknown values are 0 in all columns.
+ */
+export class OneHotEncoder implements Transform {
+  constructor(
+    public readonly name: string,
+    public readonly categories: string[],
+    public readonly options: OneHotOptions = {},
+  ) {}
+
+  /** Categories of named column */
+  public static fit(
+    frame: DataFrame,
+    name: string,
+    options: OneHotOptions = {},
+  ): OneHotEncoder {
+    return new OneHotEncoder(name, distinct(frame, name), options);
+  }
+
+  /** Names of columns added */
+  public get names(): string[] {
+    const { prefix = this.name, dropFirst = false } = this.options;
+    return this.categories.slice(dropFirst ? 1 : 0).map((c) =>
+      `${prefix}_${c}`
+    );
+  }
+
+  public apply(frame: DataFrame): DataFrame {
+    const values = texts(frame, this.name);
+    const offset: number = this.categories.length - this.names.length;
+    const columns: Record<string, Series> = {};
+    this.names.forEach((name, i) => {
+      const category: string = this.categories[i + offset];
+      columns[name] = new Series(
+        values.map((v) => v === undefined ? v : v === category ? 1 : 0),
+      );
+    });
+    return frame.assign(columns).exclude([this.name]);
+  }
+}
+
+/** Text or boolean column replaced by position of value in labels.
+ * Unknown values are missing.
+ */
+export class LabelEncoder implements Transform {
+  constructor(
+    public readonly name: string,
+    public readonly labels: string[],
+  ) {}
+
+  /** Labels of named column */
+  public static fit(frame: DataFrame, name: string): LabelEncoder {
+    return new LabelEncoder(name, distinct(frame, name));
+  }
+
+  public apply(frame: DataFrame): DataFrame {
+    const codes = new Map<string, number>(this.labels.map((l, i) => [l, i]));
+    return frame.assign({
+      [this.name]: new Series(
+        texts(frame, this.name).map((v) => v === undefined ? v : codes.get(v)),
+      ),
+    });
+  }
+}
@@ -0,0 +1,85 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { compile, compileAssignment, QueryError, references } from "./query.ts";
+
+const row = { price: 12, qty: 3, category: "fruit", empty: undefined };
+
+Deno.test("Arithmetic", () => {
+  assertEquals(compile("price * qty - 1")(row), 35);
+  assertEquals(compile("(price + qty) / 5 % 2")(row), 1);
+  assertEquals(compile("-price + 2e1")(row), 8);
+  assertEquals(compile("empty + 1")(row), undefined);
+});
+
+Deno.test("Comparison and logic", () => {
+  assertEquals(compile("price > 10 && category == 'fruit'")(row), true);
+  assertEquals(compile('price <= 10 or category != "fruit"')(row), false);
+  assertEquals(compile("not (qty >= 3)")(row), false);
+  assertEquals(compile("!true || false")(row), false);
+  assertEquals(compile("empty < 1")(row), false);
+});
+
+Deno.test("Membership", () => {
+  assertEquals(compile("category in ['fruit', 'bread']")(row), true);
+  assertEquals(compile("qty not in [1, 2, 3]")(row), false);
+});
+
+Deno.test("Null checks", () => {
+  assertEquals(compile("empty == null")(row), true);
+  assertEquals(compile("price != null")(row), true);
+});
+
+Deno.test("Functions", () => {
+  assertEquals(compile("abs(-qty)")(row), 3);
+  assertEquals(compile("round(log(price), 2)")(row), 2.48);
+  assertEquals(compile("sqrt(empty)")(row), undefined);
+});
+
+Deno.test("Column names in backticks", () => {
+  assertEquals(compile("`unit price` * 2")({ "unit price": 4 }), 8);
+});
+
+Deno.test("Assignment", () => {
+  const [name, expression] = compileAssignment("total = price * qty");
+  assertEquals(name, "total");
+  assertEquals(expression(row), 36);
+});
+
+Deno.test("Parse errors", () => {
+  assertThrows(() => compile("price > "), QueryError, "end of expression");
+  assertThrows(() => compile("price >> 2"), QueryError, "at column 8");
+  assertThrows(() => compile("price # 2"), QueryError, "'#' at column 7");
+  assertThrows(() => compile("'open"), QueryError, "Unterminated string");
+  assertThrows(() => compile("foo(1)"), QueryError, "Unknown function foo");
+  assertThrows(
+    () => compile("constructor(1)"),
+    QueryError,
+    "Unknown function constructor",
+  );
+  assertThrows(
+    () => compile("prise > 1", ["price"]),
+    QueryError,
+    "Unknown column prise at column 1",
+  );
+  assertThrows(
+    () => compile("qty in price"),
+    QueryError,
+    "Expected list after in at column 8",
+  );
+  assertThrows(
+    () => compile("qty not in 3"),
+    QueryError,
+    "Expected list after in at column 12",
+  );
+  const error = assertThrows(() => compile("(qty"), QueryError);
+  assertEquals((error as QueryError).column, 5);
+});
+
+Deno.test("References", () => {
+  assertEquals(references("price * qty > round(`a b`) and x in [y]"), [
+    "price",
+    "qty",
+    "a b",
+    "x",
+    "y",
+  ]);
+});
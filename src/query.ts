@@ -0,0 +1,394 @@
+import { missing } from "./series.ts";
+import type { SeriesTypes } from "./series.ts";
+
+/** Values of a row by column name */
+type Row = Record<string, SeriesTypes>;
+
+/** Compiled expression evaluated on a row */
+type Evaluate = (row: Row) => unknown;
+
+/** Compiled expression returning a value for each row */
+export type Expression = (row: Row) => SeriesTypes;
+
+type TokenType = "number" | "string" | "name" | "operator" | "end";
+
+type Token = {
+  type: TokenType;
+  text: string;
+  value?: number | string;
+  // Position in expression, starting at 1
+  column: number;
+};
+
+/** Error in syntax of expression, with position of error */
+export class QueryError extends Error {
+  constructor(message: string, public readonly column: number) {
+    super(`${message} at column ${column}`);
+    this.name = "QueryError";
+  }
+}
+
+const OPERATORS = [
+  "==",
+  "!=",
+  "<=",
+  ">=",
+  "&&",
+  "||",
+  "<",
+  ">",
+  "+",
+  "-",
+  "*",
+  "/",
+  "%",
+  "!",
+  "(",
+  ")",
+  "[",
+  "]",
+  ",",
+  "=",
+];
+
+/** Functions available in expressions */
+const functions: Record<string, (...args: number[]) => number> = {
+  abs: Math.abs,
+  ceil: Math.ceil,
+  exp: Math.exp,
+  floor: Math.floor,
+  log: Math.log,
+  round: (n: number, digits: number = 0) =>
+    Math.round(n * 10 ** digits) / 10 ** digits,
+  sqrt: Math.sqrt,
+};
+
+/** Split expression into tokens */
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < expression.length) {
+    const char = expression[i];
+    const column = i + 1;
+    if (/\s/.test(char)) {
+      i++;
+    } else if (/[0-9.]/.test(char)) {
+      const match = expression.slice(i).match(
+        /^(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?/,
+      );
+      if (!match) throw new QueryError(`Invalid number`, column);
+      tokens.push({
+        type: "number",
+        text: match[0],
+        value: Number(match[0]),
+        column,
+      });
+      i += match[0].length;
+    } else if (char === "'" || char === '"' || char === "`") {
+      // Quoted string, or column name in backticks
+      let text = "";
+      let j = i + 1;
+      while (j < expression.length && expression[j] !== char) {
+        if (expression[j] === "\\" && j + 1 < expression.length) j++;
+        text += expression[j++];
+      }
+      if (j >= expression.length) {
+        throw new QueryError(`Unterminated string`, column);
+      }
+      tokens.push({
+        type: char === "`" ? "name" : "string",
+        text: expression.slice(i, j + 1),
+        value: text,
+        column,
+      });
+      i = j + 1;
+    } else if (/[A-Za-z_]/.test(char)) {
+      const name = (expression.slice(i).match(/^[A-Za-z_]\w*/) as string[])[0];
+      tokens.push({ type: "name", text: name, value: name, column });
+      i += name.length;
+    } else {
+      const operator = OPERATORS.find((o) => expression.startsWith(o, i));
+      if (!operator) {
+        throw new QueryError(`Unexpected character '${char}'`, column);
+      }
+      tokens.push({ type: "operator", text: operator, column });
+      i += operator.length;
+    }
+  }
+  tokens.push({ type: "end", text: "end of expression", column: i + 1 });
+  return tokens;
+}
+
+/** Compare two values, missing values are only equal to each other */
+function equal(a: unknown, b: unknown): boolean {
+  if (missing(a) || missing(b)) return missing(a) && missing(b);
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() === b.getTime();
+  }
+  return a === b;
+}
+
+/** Apply operator unless any operand is missing */
+function arithmetic(
+  a: unknown,
+  b: unknown,
+  fn: (a: number, b: number) => unknown,
+): unknown {
+  if (missing(a) || missing(b)) return undefined;
+  return fn(a as number, b as number);
+}
+
+/** Recursive descent parser compiling tokens to functions */
+class Parser {
+  private position = 0;
+
+  /** Names of columns in expression */
+  public readonly references = new Set<string>();
+
+  constructor(
+    private readonly tokens: Token[],
+    private readonly names?: string[],
+  ) {}
+
+  private get token(): Token {
+    return this.tokens[this.position];
+  }
+
+  /** Consume operator or keyword if next */
+  private accept(...texts: string[]): Token | undefined {
+    const token = this.token;
+    if (
+      (token.type === "operator" ||
+        (token.type === "name" && !token.text.startsWith("`"))) &&
+      texts.includes(token.text)
+    ) {
+      this.position++;
+      return token;
+    }
+    return undefined;
+  }
+
+  /** Consume operator which must be next */
+  private expect(text: string): Token {
+    const token = this.accept(text);
+    if (!token) this.unexpected();
+    return token as Token;
+  }
+
+  private unexpected(): never {
+    const token = this.token;
+    throw new QueryError(
+      token.type === "end"
+        ? "Unexpected end of expression"
+        : `Unexpected '${token.text}'`,
+      token.column,
+    );
+  }
+
+  /** Complete expression */
+  public expression(): Evaluate {
+    const evaluate = this.or();
+    if (this.token.type !== "end") this.unexpected();
+    return evaluate;
+  }
+
+  /** Assignment of expression to name of column */
+  public assignment(): [string, Evaluate] {
+    const target = this.token;
+    if (target.type !== "name") this.unexpected();
+    this.position++;
+    this.expect("=");
+    return [target.value as string, this.expression()];
+  }
+
+  private or(): Evaluate {
+    let left = this.and();
+    while (this.accept("||", "or")) {
+      const [a, b] = [left, this.and()];
+      left = (row) => Boolean(a(row)) || Boolean(b(row));
+    }
+    return left;
+  }
+
+  private and(): Evaluate {
+    let left = this.not();
+    while (this.accept("&&", "and")) {
+      const [a, b] = [left, this.not()];
+      left = (row) => Boolean(a(row)) && Boolean(b(row));
+    }
+    return left;
+  }
+
+  private not(): Evaluate {
+    if (this.accept("!", "not")) {
+      const a = this.not();
+      return (row) => !a(row);
+    }
+    return this.comparison();
+  }
+
+  private comparison(): Evaluate {
+    const a = this.additive();
+    const operator = this.accept("==", "!=", "<", "<=", ">", ">=");
+    if (operator) {
+      const b = this.additive();
+      switch (operator.text) {
+        case "==":
+          return (row) => equal(a(row), b(row));
+        case "!=":
+          return (row) => !equal(a(row), b(row));
+        case "<":
+          return (row) => arithmetic(a(row), b(row), (x, y) => x < y) === true;
+        case "<=":
+          return (row) => arithmetic(a(row), b(row), (x, y) => x <= y) === true;
+        case ">":
+          return (row) => arithmetic(a(row), b(row), (x, y) => x > y) === true;
+        default:
+          return (row) => arithmetic(a(row), b(row), (x, y) => x >= y) === true;
+      }
+    }
+
+    // Membership in list
+    const negate: boolean = this.token.text === "not" &&
+      this.tokens[this.position + 1]?.text === "in";
+    if (negate) this.position++;
+    if (this.accept("in")) {
+      const open: Token = this.token;
+      if (!this.accept("[")) {
+        throw new QueryError("Expected list after in", open.column);
+      }
+      const list = this.list();
+      return (row) => {
+        const value = a(row);
+        const found = list(row).some((v) => equal(value, v));
+        return negate ? !found : found;
+      };
+    }
+    return a;
+  }
+
+  private additive(): Evaluate {
+    let left = this.multiplicative();
+    let operator: Token | undefined;
+    while ((operator = this.accept("+", "-"))) {
+      const [a, b] = [left, this.multiplicative()];
+      left = operator.text === "+"
+        ? (row) => arithmetic(a(row), b(row), (x, y) => x + y)
+        : (row) => arithmetic(a(row), b(row), (x, y) => x - y);
+    }
+    return left;
+  }
+
+  private multiplicative(): Evaluate {
+    let left = this.unary();
+    let operator: Token | undefined;
+    while ((operator = this.accept("*", "/", "%"))) {
+      const [a, b] = [left, this.unary()];
+      left = operator.text === "*"
+        ? (row) => arithmetic(a(row), b(row), (x, y) => x * y)
+        : operator.text === "/"
+        ? (row) => arithmetic(a(row), b(row), (x, y) => x / y)
+        : (row) => arithmetic(a(row), b(row), (x, y) => x % y);
+    }
+    return left;
+  }
+
+  private unary(): Evaluate {
+    if (this.accept("-")) {
+      const a = this.unary();
+      return (row) => arithmetic(a(row), 0, (x) => -x);
+    }
+    return this.primary();
+  }
+
+  /** Items of list after opening bracket */
+  private list(): (row: Row) => unknown[] {
+    const items: Evaluate[] = [];
+    if (!this.accept("]")) {
+      do items.push(this.or()); while (this.accept(","));
+      this.expect("]");
+    }
+    return (row) => items.map((item) => item(row));
+  }
+
+  private primary(): Evaluate {
+    const token = this.token;
+
+    if (token.type === "number" || token.type === "string") {
+      this.position++;
+      return () => token.value;
+    }
+
+    if (this.accept("(")) {
+      const a = this.or();
+      this.expect(")");
+      return a;
+    }
+
+    if (this.accept("[")) return this.list();
+
+    if (token.type === "name") {
+      this.position++;
+      const name = token.value as string;
+      if (!token.text.startsWith("`")) {
+        if (name === "true") return () => true;
+        if (name === "false") return () => false;
+        if (name === "null" || name === "undefined") return () => undefined;
+
+        // Function call
+        if (this.accept("(")) {
+          const fn = Object.hasOwn(functions, name)
+            ? functions[name]
+            : undefined;
+          if (!fn) {
+            throw new QueryError(`Unknown function ${name}`, token.column);
+          }
+          const args: Evaluate[] = [];
+          if (!this.accept(")")) {
+            do args.push(this.or()); while (this.accept(","));
+            this.expect(")");
+          }
+          return (row) => {
+            const values = args.map((arg) => arg(row));
+            return values.some(missing)
+              ? undefined
+              : fn(...(values as number[]));
+          };
+        }
+      }
+
+      if (this.names && !this.names.includes(name)) {
+        throw new QueryError(`Unknown column ${name}`, token.column);
+      }
+      this.references.add(name);
+      return (row) => row[name];
+    }
+
+    this.unexpected();
+  }
+}
+
+/** Compile expression to function of row.
+ * If names of columns are given, unknown names are errors.
+ */
+export function compile(expression: string, names?: string[]): Expression {
+  const evaluate = new Parser(tokenize(expression), names).expression();
+  return evaluate as Expression;
+}
+
+/** Names of columns used in expression */
+export function references(expression: string): string[] {
+  const parser = new Parser(tokenize(expression));
+  parser.expression();
+  return Array.from(parser.references);
+}
+
+/** Compile assignment such as "total = price * qty" to name and function */
+export function compileAssignment(
+  expression: string,
+  names?: string[],
+): [string, Expression] {
+  const [name, evaluate] = new Parser(tokenize(expression), names)
+    .assignment();
+  return [name, evaluate as Expression];
+}
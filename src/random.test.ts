@@ -0,0 +1,45 @@
+import { assertEquals, assertNotEquals, assertThrows } from "@std/assert";
+import { choose, generator, shuffled } from "./random.ts";
+
+Deno.test("Same seed gives same numbers", () => {
+  const a = generator(42);
+  const b = generator(42);
+  const numbers = Array.from({ length: 5 }, () => a());
+  assertEquals(Array.from({ length: 5 }, () => b()), numbers);
+  numbers.forEach((n) => assertEquals(n >= 0 && n < 1, true));
+  assertNotEquals(generator(43)(), numbers[0]);
+});
+
+Deno.test("Shuffled copy", () => {
+  const values = [1, 2, 3, 4, 5];
+  const result = shuffled(values, generator(1));
+  assertEquals(values, [1, 2, 3, 4, 5]);
+  assertEquals(result.toSorted(), values);
+  assertEquals(shuffled(values, generator(1)), result);
+});
+
+Deno.test("Choose positions", () => {
+  const rng = generator(3);
+  const distinct = choose(10, 10, false, rng);
+  assertEquals(distinct.toSorted((a, b) => a - b), [
+    0,
+    1,
+    2,
+    3,
+    4,
+    5,
+    6,
+    7,
+    8,
+    9,
+  ]);
+  assertEquals(choose(3, 20, true, rng).every((p) => p >= 0 && p < 3), true);
+});
+
+Deno.test("Choose by weight", () => {
+  const rng = generator(5);
+  assertEquals(choose(3, 2, false, rng, [0, 1, 1]).toSorted(), [1, 2]);
+  assertEquals(choose(3, 10, true, rng, [0, 0, 2]), Array(10).fill(2));
+  assertThrows(() => choose(3, 2, false, rng, [0, 0, 1]));
+  assertThrows(() => choose(2, 1, false, rng, [-1, 1]));
+});
@@ -0,0 +1,82 @@
+/** Generator of pseudo random numbers from 0 up to 1 */
+export type RandomGenerator = () => number;
+
+/** Reproducible generator from seed (mulberry32) */
+function mulberry32(seed: number): RandomGenerator {
+  let state: number = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t: number = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Generator with own seed, or Math.random if no seed */
+export function generator(seed?: number): RandomGenerator {
+  return seed === undefined ? Math.random : mulberry32(seed);
+}
+
+/** Copy of values in random order */
+export function shuffled<T>(
+  values: Array<T>,
+  rng: RandomGenerator = Math.random,
+): Array<T> {
+  const result: Array<T> = values.slice();
+  for (let i = result.length - 1; i > 0; i--) {
+    const j: number = Math.floor(rng() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/** Random positions of count items out of size items.
+ * Items with larger weight are more likely chosen. Missing weights are zero.
+ */
+export function choose(
+  size: number,
+  count: number,
+  replace: boolean,
+  rng: RandomGenerator = Math.random,
+  weights?: Array<number | undefined>,
+): number[] {
+  const positions: number[] = Array.from(Array(size).keys());
+  if (!weights) {
+    if (replace) {
+      return Array.from({ length: count }, () => Math.floor(rng() * size));
+    }
+    return shuffled(positions, rng).slice(0, count);
+  }
+
+  const w: number[] = weights.map((v) => Number.isFinite(v) ? v as number : 0);
+  if (w.some((v) => v < 0)) throw new Error("Weights cannot be negative");
+  const positive: number = w.filter((v) => v > 0).length;
+  if (!positive || (!replace && count > positive)) {
+    throw new Error(`Too few rows with positive weight to choose ${count}`);
+  }
+
+  if (replace) {
+    // Binary search in cumulative weights
+    const cumulative: number[] = [];
+    w.reduce((s, v, i) => cumulative[i] = s + v, 0);
+    const total: number = cumulative[size - 1];
+    return Array.from({ length: count }, () => {
+      const target: number = rng() * total;
+      let low = 0;
+      let high: number = size - 1;
+      while (low < high) {
+        const middle: number = (low + high) >> 1;
+        if (cumulative[middle] > target) high = middle;
+        else low = middle + 1;
+      }
+      return low;
+    });
+  }
+
+  // Smallest exponential keys, which favour larger weights (Efraimidis-Spirakis)
+  const keys: number[] = w.map((v) =>
+    v > 0 ? -Math.log(1 - rng()) / v : Infinity
+  );
+  return positions.sort((a, b) => keys[a] - keys[b]).slice(0, count);
+}
@@ -0,0 +1,54 @@
+import { assertEquals } from "@std/assert";
+import { formatHTML, formatMarkdown, grid, pad } from "./render.ts";
+
+const values = [[1.5, "a"], [undefined, "b|c"], [30, "<d>"]];
+const cells = grid(["n", "s"], [true, false], 3, (r, c) => values[r][c], {});
+
+Deno.test("Cells", () => {
+  assertEquals(cells, {
+    header: ["n", "s"],
+    rows: [["1.5", "a"], ["", "b|c"], ["30", "<d>"]],
+    right: [true, false],
+  });
+});
+
+Deno.test("Elided rows, columns and text", () => {
+  const elided = grid(
+    ["a", "b", "c"],
+    [true, true, true],
+    5,
+    (r, c) => r * 10 + c,
+    { maxRows: 3, maxColumns: 2, maxWidth: 2, numberFormat: (n) => `#${n}` },
+  );
+  assertEquals(elided.header, ["a", "…", "c"]);
+  assertEquals(elided.rows, [
+    ["#0", "…", "#2"],
+    ["#…", "…", "#…"],
+    ["…", "…", "…"],
+    ["#…", "…", "#…"],
+  ]);
+});
+
+Deno.test("Padded cells", () => {
+  assertEquals(pad(cells).rows, [
+    ["1.5", "a  "],
+    ["   ", "b|c"],
+    [" 30", "<d>"],
+  ]);
+});
+
+Deno.test("Markdown", () => {
+  assertEquals(
+    formatMarkdown(cells),
+    "| n | s |\n| ---: | --- |\n| 1.5 | a |\n|  | b\\|c |\n| 30 | <d> |\n",
+  );
+});
+
+Deno.test("HTML", () => {
+  const html: string = formatHTML(cells);
+  assertEquals(
+    html.split("\n")[2],
+    '    <tr><th style="text-align: right">n</th><th>s</th></tr>',
+  );
+  assertEquals(html.includes("<td>&lt;d&gt;</td>"), true);
+});
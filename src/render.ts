@@ -0,0 +1,140 @@
+import { missing } from "./series.ts";
+import type { SeriesTypes } from "./series.ts";
+
+/** Options for rendering a dataframe as text */
+export type RenderOptions = {
+  /** Maximum count of rows, otherwise first and last rows are shown */
+  maxRows?: number;
+
+  /** Maximum count of columns, otherwise first and last columns are shown */
+  maxColumns?: number;
+
+  /** Maximum count of characters in a cell, longer text is truncated */
+  maxWidth?: number;
+
+  /** Text of a number, default String */
+  numberFormat?: (value: number) => string;
+
+  /** Text of missing values, default "" */
+  placeholder?: string;
+};
+
+/** Text of cells, and alignment of each column */
+export type Grid = {
+  header: string[];
+  rows: string[][];
+  right: boolean[];
+};
+
+/** Marker of elided rows, columns and text */
+const ELLIPSIS = "…";
+
+/** Positions shown of count items, undefined marks elided items */
+function visible(count: number, max: number): Array<number | undefined> {
+  const all: number[] = Array.from(Array(count).keys());
+  if (count <= max) return all;
+  const head: number = Math.ceil(max / 2);
+  const tail: number = max - head;
+  return [...all.slice(0, head), undefined, ...all.slice(count - tail)];
+}
+
+/** Text of cells, with elided rows and columns.
+ * Value of cell is looked up by position of row and column.
+ */
+export function grid(
+  names: string[],
+  numeric: boolean[],
+  length: number,
+  value: (row: number, column: number) => SeriesTypes,
+  options: RenderOptions,
+): Grid {
+  const {
+    maxRows = Infinity,
+    maxColumns = Infinity,
+    maxWidth = Infinity,
+    numberFormat = String,
+    placeholder = "",
+  } = options;
+
+  const truncate = (text: string): string =>
+    text.length > maxWidth
+      ? text.slice(0, Math.max(0, maxWidth - 1)) + ELLIPSIS
+      : text;
+
+  const format = (v: SeriesTypes): string => {
+    if (missing(v)) return placeholder;
+    if (typeof v === "number") return numberFormat(v);
+    if (v instanceof Date) return v.toISOString();
+    if (typeof v === "object") return JSON.stringify(v);
+    return String(v);
+  };
+
+  const columns = visible(names.length, maxColumns);
+  const rows = visible(length, maxRows);
+  return {
+    header: columns.map((c) => c === undefined ? ELLIPSIS : truncate(names[c])),
+    rows: rows.map((r) =>
+      columns.map((c) =>
+        r === undefined || c === undefined
+          ? ELLIPSIS
+          : truncate(format(value(r, c)))
+      )
+    ),
+    right: columns.map((c) => c !== undefined && numeric[c]),
+  };
+}
+
+/** Cells padded to width of column, numbers aligned to right */
+export function pad(grid: Grid): Grid {
+  const widths: number[] = grid.header.map((h, c) =>
+    Math.max(h.length, ...grid.rows.map((r) => r[c].length))
+  );
+  const fill = (text: string, c: number) =>
+    grid.right[c] ? text.padStart(widths[c]) : text.padEnd(widths[c]);
+  return {
+    header: grid.header.map(fill),
+    rows: grid.rows.map((r) => r.map(fill)),
+    right: grid.right,
+  };
+}
+
+/** Markdown table */
+export function formatMarkdown(grid: Grid): string {
+  const line = (cells: string[]) =>
+    "| " + cells.map((c) => c.replaceAll("|", "\\|")).join(" | ") + " |\n";
+  return [
+    line(grid.header),
+    line(grid.right.map((r) => r ? "---:" : "---")),
+    ...grid.rows.map(line),
+  ].join("");
+}
+
+/** Text with special characters of HTML escaped */
+function escape(text: string): string {
+  return text
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;");
+}
+
+/** HTML table */
+export function formatHTML(grid: Grid): string {
+  const line = (cells: string[], tag: string) =>
+    "    <tr>" +
+    cells.map((c, i) => {
+      const style = grid.right[i] ? ' style="text-align: right"' : "";
+      return `<${tag}${style}>${escape(c)}</${tag}>`;
+    }).join("") +
+    "</tr>\n";
+  return [
+    "<table>\n",
+    "  <thead>\n",
+    line(grid.header, "th"),
+    "  </thead>\n",
+    "  <tbody>\n",
+    ...grid.rows.map((r) => line(r, "td")),
+    "  </tbody>\n",
+    "</table>\n",
+  ].join("");
+}
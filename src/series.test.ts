@@ -1,5 +1,16 @@
-import { assertEquals, assertInstanceOf } from "@std/assert";
-import { BoolSeries, ObjectSeries, Series, TextSeries } from "./series.ts";
+import { assertEquals, assertInstanceOf, assertThrows } from "@std/assert";
+import {
+  autoSeries,
+  BoolSeries,
+  canonical,
+  CategorySeries,
+  DateSeries,
+  FloatSeries,
+  ObjectSeries,
+  parseDate,
+  Series,
+  TextSeries,
+} from "./series.ts";
 
 Deno.test("Numbers", () => {
   const s = new Series();
@@ -30,4 +41,142 @@ Deno.test("First and last", () => {
 Deno.test("Any item", () => {
   const s = new Series([10]);
   assertEquals(s.any, 10);
+  const t = new Series([1, 2, 3, 4, 5]);
+  assertEquals(t.sample(3), t.sample(3));
+});
+
+Deno.test("Count and unique", () => {
+  const s = autoSeries(["a", "b", "a", undefined]);
+  assertEquals(s.count, 3);
+  assertEquals(s.nunique, 2);
+  assertEquals(s.mode, "a");
+});
+
+Deno.test("Statistics", () => {
+  const s = new Series([4, 1, undefined, 3, NaN, 2]);
+  assertEquals(s.count, 4);
+  assertEquals(s.sum, 10);
+  assertEquals(s.mean, 2.5);
+  assertEquals(s.min, 1);
+  assertEquals(s.max, 4);
+  assertEquals(s.median, 2.5);
+  assertEquals(s.quantile(0.25), 1.75);
+  assertEquals(s.quantile(1), 4);
+  assertEquals(s.variance, 5 / 3);
+  assertEquals(s.std, Math.sqrt(5 / 3));
+});
+
+Deno.test("Statistics of empty series", () => {
+  const s = new Series([undefined]);
+  assertEquals(s.count, 0);
+  assertEquals(s.sum, 0);
+  assertEquals(s.mean, undefined);
+  assertEquals(s.std, undefined);
+  assertEquals(s.min, undefined);
+  assertEquals(s.median, undefined);
+});
+
+Deno.test("Typed array", () => {
+  const s = FloatSeries.from([1, undefined, 3]);
+  assertInstanceOf(s, Series);
+  assertEquals(s.length, 3);
+  assertEquals(s.values, [1, undefined, 3]);
+  assertEquals(s.valid(1), false);
+  assertEquals(s.count, 2);
+  assertEquals(s.mean, 2);
+  assertEquals(s.gather([2, 1, 0]), [3, 1]);
+  assertEquals(s.map((n) => n * 2, [0, 1]).values, [2, undefined, undefined]);
+});
+
+Deno.test("Dates", () => {
+  const s = DateSeries.parse(["2024-03-10T12:30:00Z", undefined]);
+  assertInstanceOf(s.first, Date);
+  assertEquals(s.year.values, [2024, undefined]);
+  assertEquals(s.month.values, [3, undefined]);
+  assertEquals(s.day.values, [10, undefined]);
+  assertEquals(s.weekday.values, [0, undefined]);
+  assertEquals(s.hour.values, [12, undefined]);
+  assertEquals(s.time.first, Date.UTC(2024, 2, 10, 12, 30));
+});
+
+Deno.test("Times without offset are UTC", () => {
+  assertEquals(
+    parseDate("2024-01-02T10:00").getTime(),
+    Date.UTC(2024, 0, 2, 10),
+  );
+  assertEquals(
+    parseDate("2024-01-02T10:00:30.5").getTime(),
+    Date.UTC(2024, 0, 2, 10, 0, 30, 500),
+  );
+  assertEquals(
+    parseDate("2024-01-02T10:00+02:00").getTime(),
+    Date.UTC(2024, 0, 2, 8),
+  );
+  assertEquals(parseDate("2024-01-02").getTime(), Date.UTC(2024, 0, 2));
+  assertEquals(parseDate(0).getTime(), 0);
+  assertEquals(DateSeries.parse(["2024-01-02T10:00"]).hour.values, [10]);
+});
+
+Deno.test("Categories", () => {
+  const s = CategorySeries.from(["b", "a", undefined, "b"]);
+  assertEquals(s.categories, ["b", "a"]);
+  assertEquals(Array.from(s.codes), [0, 1, -1, 0]);
+  assertEquals(s.values, ["b", "a", undefined, "b"]);
+  assertEquals(s.length, 4);
+  assertEquals(s.nunique, 2);
+  assertEquals(s.ordered, false);
+  assertInstanceOf(s.text, TextSeries);
+
+  const declared = CategorySeries.from(["b", "c"], ["a", "b"]);
+  assertEquals(declared.values, ["b", undefined]);
+  assertEquals(declared.ordered, true);
+});
+
+Deno.test("Arithmetic", () => {
+  const a = new Series([1, 2, undefined, 4]);
+  const b = new Series([2, 2, 2, undefined]);
+  assertEquals(a.add(b).values, [3, 4, undefined, undefined]);
+  assertEquals(a.sub(1).values, [0, 1, undefined, 3]);
+  assertEquals(a.mul(b).values, [2, 4, undefined, undefined]);
+  assertEquals(a.div(2).values, [0.5, 1, undefined, 2]);
+  assertEquals(a.pow(b).values, [1, 4, undefined, undefined]);
+  assertEquals(a.mod(3).values, [1, 2, undefined, 1]);
+
+  // Typed arrays stay typed
+  const f = FloatSeries.from([1, 2, undefined, 4]);
+  const typed = f.mul(FloatSeries.from([2, 2, 2, undefined]));
+  assertInstanceOf(typed, FloatSeries);
+  assertEquals(typed.values, [2, 4, undefined, undefined]);
+  assertEquals(f.add(b).values, [3, 4, undefined, undefined]);
+  assertThrows(() => a.add(new Series([1])), Error, "different lengths");
+});
+
+Deno.test("Comparison and logic", () => {
+  const a = new Series([1, 2, undefined]);
+  assertEquals(a.gt(1).values, [false, true, undefined]);
+  assertEquals(a.le(new Series([1, 1, 1])).values, [true, false, undefined]);
+  assertEquals(a.eq(2).values, [false, true, undefined]);
+  assertEquals(a.ne(2).values, [true, false, undefined]);
+  assertEquals(new TextSeries(["a", "b"]).lt("b").values, [true, false]);
+
+  const p = new Series([1, 0, undefined]).gt(0);
+  assertEquals(p.and(false).values, [false, false, false]);
+  assertEquals(p.and(true).values, [true, false, undefined]);
+  assertEquals(p.or(true).values, [true, true, true]);
+  assertEquals(p.or(p).values, [true, false, undefined]);
+  assertEquals(p.not().values, [false, true, undefined]);
+});
+
+Deno.test("Canonical identity", () => {
+  assertEquals(
+    canonical({ a: 1, b: [{ d: 1, c: 2 }] }),
+    '{"a":1,"b":[{"c":2,"d":1}]}',
+  );
+  assertEquals(
+    canonical({ b: [{ c: 2, d: 1 }], a: 1 }),
+    '{"a":1,"b":[{"c":2,"d":1}]}',
+  );
+  assertEquals(canonical(new Date(5)), canonical(new Date(5)));
+  assertEquals(canonical(NaN), undefined);
+  assertEquals(canonical("x"), "x");
 });
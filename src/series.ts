@@ -1,3 +1,5 @@
+import { generator } from "./random.ts";
+
 /** Series of similar types */
 export interface SeriesInterface<T> {
   /** List of all values */
@@ -16,11 +18,61 @@ export interface SeriesInterface<T> {
 /** Native types allowed in series. A series can be of only one type. */
 export type SeriesTypes = number | string | boolean | object | undefined;
 
+/** Is value undefined, NaN or an invalid date */
+export function missing(value: unknown): boolean {
+  return value === undefined || Number.isNaN(value) ||
+    (value instanceof Date && Number.isNaN(value.getTime()));
+}
+
+/** Identity of value for equality. Objects with same keys and values are
+ * equal regardless of order of keys, dates at same time are equal, and all
+ * missing values are equal.
+ */
+export function canonical(value: SeriesTypes): unknown {
+  if (missing(value)) return undefined;
+  if (value instanceof Date) return value.getTime();
+  if (typeof value !== "object" || value === null) return value;
+  return JSON.stringify(
+    value,
+    (_, v) =>
+      v && typeof v === "object" && !Array.isArray(v)
+        ? Object.fromEntries(
+          Object.entries(v).sort(([a], [b]) => a < b ? -1 : a > b ? 1 : 0),
+        )
+        : v,
+  );
+}
+
+const ISO8601 =
+  /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+/** Is value a string with a valid ISO-8601 date or time */
+export function isoDate(value: unknown): boolean {
+  if (typeof value !== "string" || !ISO8601.test(value)) return false;
+  if (isNaN(parseDate(value).getTime())) return false;
+  // Days past end of month, such as 2024-02-30, would roll over to next month
+  const day: string = value.slice(0, 10);
+  return new Date(day).toISOString().startsWith(day);
+}
+
+/** Date of text or milliseconds. ISO-8601 times without offset are UTC,
+ * independent of time zone of machine.
+ */
+export function parseDate(value: string | number): Date {
+  const match = typeof value === "string" ? ISO8601.exec(value) : null;
+  if (match && match[1] !== undefined && match[4] === undefined) {
+    return new Date(value + "Z");
+  }
+  return new Date(value);
+}
+
 /** Series classes available */
 export type SeriesClasses =
   | Series
   | TextSeries
   | BoolSeries
+  | DateSeries
+  | CategorySeries
   | ObjectSeries<object>;
 
 /** Abstract series */
@@ -28,10 +80,15 @@ abstract class DataSeries<T> implements SeriesInterface<T> {
   // Does series contain numbers
   public readonly isNumber: boolean;
 
-  constructor(public readonly values: Array<T> = []) {
+  constructor(private readonly data: Array<T> = []) {
     this.isNumber = false;
   }
 
+  /** List of all values */
+  public get values(): Array<T> {
+    return this.data;
+  }
+
   /** Count of elements in series */
   public get length(): number {
     return this.values.length;
@@ -47,11 +104,111 @@ abstract class DataSeries<T> implements SeriesInterface<T> {
     return this.values[this.values.length - 1];
   }
 
-  /** Random elements in series */
+  /** Random element in series */
   public get any(): T {
-    const index: number = Math.floor(this.values.length * Math.random());
+    return this.sample();
+  }
+
+  /** Random element in series, reproducible with seed */
+  public sample(seed?: number): T {
+    const index: number = Math.floor(this.values.length * generator(seed)());
     return this.values[index];
   }
+
+  /** Values which are neither undefined nor NaN */
+  protected get present(): Array<T> {
+    return this.values.filter((v) => !missing(v));
+  }
+
+  /** Count of values which are not missing */
+  public get count(): number {
+    return this.present.length;
+  }
+
+  /** Count of distinct values which are not missing */
+  public get nunique(): number {
+    return new Set(this.present).size;
+  }
+
+  /** Most frequent value, first seen wins ties */
+  public get mode(): T | undefined {
+    const counts = new Map<T, number>();
+    this.present.forEach((v) => counts.set(v, (counts.get(v) || 0) + 1));
+    let best: T | undefined = undefined;
+    let most = 0;
+    counts.forEach((count, value) => {
+      if (count > most) {
+        best = value;
+        most = count;
+      }
+    });
+    return best;
+  }
+
+  /** Test each value against a value, or value at same position of other
+   * series. Result is missing where either value is missing.
+   */
+  private compare(
+    other: T | DataSeries<T>,
+    test: (a: T, b: T) => boolean,
+  ): BoolSeries {
+    const values: Array<T> = this.values;
+    const others: Array<T> | undefined = other instanceof DataSeries
+      ? aligned(this, other).values
+      : undefined;
+    return new BoolSeries(
+      values.map((a, i) => {
+        const b = others ? others[i] : other as T;
+        return missing(a) || missing(b) ? undefined : test(a, b);
+      }) as boolean[],
+    );
+  }
+
+  /** Values equal to other values */
+  public eq(other: T | DataSeries<T>): BoolSeries {
+    return this.compare(
+      other,
+      (a, b) =>
+        a instanceof Date && b instanceof Date
+          ? a.getTime() === b.getTime()
+          : a === b,
+    );
+  }
+
+  /** Values different from other values */
+  public ne(other: T | DataSeries<T>): BoolSeries {
+    return this.eq(other).not();
+  }
+
+  /** Values less than other values */
+  public lt(other: T | DataSeries<T>): BoolSeries {
+    return this.compare(other, (a, b) => a < b);
+  }
+
+  /** Values less than or equal to other values */
+  public le(other: T | DataSeries<T>): BoolSeries {
+    return this.compare(other, (a, b) => a <= b);
+  }
+
+  /** Values greater than other values */
+  public gt(other: T | DataSeries<T>): BoolSeries {
+    return this.compare(other, (a, b) => a > b);
+  }
+
+  /** Values greater than or equal to other values */
+  public ge(other: T | DataSeries<T>): BoolSeries {
+    return this.compare(other, (a, b) => a >= b);
+  }
+}
+
+/** Confirm other series has same length as series */
+function aligned<S extends { length: number }>(series: S, other: S): S {
+  if (series.length !== other.length) {
+    throw new Error(
+      `Series have different lengths ${series.length} and ${other.length}`,
+    );
+  }
+  return other;
 }
 
 /** Series of strings */
@@ -62,12 +219,134 @@ export class TextSeries extends DataSeries<string>
   }
 }
 
+/** Series of strings stored as integer codes in a dictionary of categories */
+export class CategorySeries extends DataSeries<string | undefined>
+  implements SeriesInterface<string | undefined> {
+  private cache?: Array<string | undefined>;
+
+  constructor(
+    // Position of each value in categories, -1 if missing
+    public readonly codes: Int32Array = new Int32Array(),
+    // Distinct values
+    public readonly categories: string[] = [],
+    // Categories are declared in order used for sorting
+    public readonly ordered: boolean = false,
+  ) {
+    super();
+  }
+
+  /** Encode strings. Strings not in declared categories are missing. */
+  public static from(
+    values: Array<string | undefined> | TextSeries,
+    categories?: string[],
+  ): CategorySeries {
+    const strings = values instanceof TextSeries ? values.values : values;
+    const dictionary: string[] = categories ? categories.slice() : [];
+    const lookup = new Map<string, number>(dictionary.map((c, i) => [c, i]));
+    const codes = new Int32Array(strings.length);
+    strings.forEach((value, i) => {
+      let code: number | undefined = value === undefined
+        ? -1
+        : lookup.get(value);
+      if (code === undefined) {
+        if (categories) code = -1;
+        else {
+          code = dictionary.push(value as string) - 1;
+          lookup.set(value as string, code);
+        }
+      }
+      codes[i] = code;
+    });
+    return new CategorySeries(codes, dictionary, categories !== undefined);
+  }
+
+  /** List of all values, missing values are undefined */
+  public override get values(): Array<string | undefined> {
+    if (!this.cache) {
+      this.cache = Array.from(
+        this.codes,
+        (code) => code < 0 ? undefined : this.categories[code],
+      );
+    }
+    return this.cache;
+  }
+
+  /** Count of elements in series */
+  public override get length(): number {
+    return this.codes.length;
+  }
+
+  /** Values at positions, sharing categories without decoding */
+  public take(positions: number[]): CategorySeries {
+    const codes = new Int32Array(positions.length);
+    for (let n = 0; n < positions.length; n++) {
+      codes[n] = this.codes[positions[n]];
+    }
+    return new CategorySeries(codes, this.categories, this.ordered);
+  }
+
+  /** Decode to series of strings */
+  public get text(): TextSeries {
+    return new TextSeries(this.values as string[]);
+  }
+}
+
 /** Series of booleans */
 export class BoolSeries extends DataSeries<boolean>
   implements SeriesInterface<boolean> {
   constructor(values?: Array<boolean>) {
     super(values);
   }
+
+  /** Combine each value with a value or value at same position of other
+   * series, using logic where missing values are unknown.
+   */
+  private logic(
+    other: boolean | BoolSeries,
+    fn: (a: boolean | undefined, b: boolean | undefined) => boolean | undefined,
+  ): BoolSeries {
+    const others: boolean[] | undefined = other instanceof BoolSeries
+      ? aligned<BoolSeries>(this, other).values
+      : undefined;
+    return new BoolSeries(
+      this.values.map((a, i) =>
+        fn(a, others ? others[i] : other as boolean)
+      ) as boolean[],
+    );
+  }
+
+  /** False if either value is false, otherwise missing if either is missing */
+  public and(other: boolean | BoolSeries): BoolSeries {
+    return this.logic(
+      other,
+      (a, b) =>
+        a === false || b === false
+          ? false
+          : a === undefined || b === undefined
+          ? undefined
+          : true,
+    );
+  }
+
+  /** True if either value is true, otherwise missing if either is missing */
+  public or(other: boolean | BoolSeries): BoolSeries {
+    return this.logic(
+      other,
+      (a, b) =>
+        a === true || b === true
+          ? true
+          : a === undefined || b === undefined
+          ? undefined
+          : false,
+    );
+  }
+
+  /** Opposite values, missing values remain missing */
+  public not(): BoolSeries {
+    return new BoolSeries(
+      this.values.map((v) => v === undefined ? undefined : !v) as boolean[],
+    );
+  }
 }
 
 /** Series of objects */
@@ -78,6 +357,64 @@ export class ObjectSeries<T> extends DataSeries<T>
   }
 }
 
+/** Series of dates (or undefined values) */
+export class DateSeries extends DataSeries<Date | undefined>
+  implements SeriesInterface<Date | undefined> {
+  constructor(values?: Array<Date | undefined>) {
+    super(values);
+  }
+
+  /** Convert dates or strings with dates to series of dates */
+  public static parse(values: Array<unknown>): DateSeries {
+    return new DateSeries(
+      values.map((v) =>
+        v === undefined || v === null
+          ? undefined
+          : v instanceof Date
+          ? v
+          : parseDate(v as string | number)
+      ),
+    );
+  }
+
+  /** Series of numbers derived from each date */
+  private part(callback: (d: Date) => number): Series {
+    return new Series(
+      this.values.map((d) => missing(d) ? undefined : callback(d as Date)),
+    );
+  }
+
+  /** Milliseconds since epoch */
+  public get time(): Series {
+    return this.part((d) => d.getTime());
+  }
+
+  /** Year in UTC */
+  public get year(): Series {
+    return this.part((d) => d.getUTCFullYear());
+  }
+
+  /** Month in UTC, 1 to 12 */
+  public get month(): Series {
+    return this.part((d) => d.getUTCMonth() + 1);
+  }
+
+  /** Day of month in UTC, 1 to 31 */
+  public get day(): Series {
+    return this.part((d) => d.getUTCDate());
+  }
+
+  /** Day of week in UTC, 0 is Sunday */
+  public get weekday(): Series {
+    return this.part((d) => d.getUTCDay());
+  }
+
+  /** Hour of day in UTC, 0 to 23 */
+  public get hour(): Series {
+    return this.part((d) => d.getUTCHours());
+  }
+}
+
 /** Series of numbers (or undefined values) */
 export class Series extends DataSeries<number | undefined>
   implements SeriesInterface<number | undefined> {
@@ -85,4 +422,286 @@ export class Series extends DataSeries<number | undefined>
   constructor(values?: Array<number | undefined>) {
     super(values);
   }
+
+  /** Numbers which are not missing */
+  protected get numbers(): number[] {
+    return this.present as number[];
+  }
+
+  /** Sum of values */
+  public get sum(): number {
+    return this.numbers.reduce((s, a) => s + a, 0);
+  }
+
+  /** Average of values */
+  public get mean(): number | undefined {
+    const n: number = this.count;
+    return n ? this.sum / n : undefined;
+  }
+
+  /** Sample variance of values */
+  public get variance(): number | undefined {
+    const n: number = this.count;
+    if (n < 2) return undefined;
+    const mean = this.mean as number;
+    return this.numbers.reduce((s, a) => s + (a - mean) ** 2, 0) / (n - 1);
+  }
+
+  /** Sample standard deviation of values */
+  public get std(): number | undefined {
+    const variance = this.variance;
+    return variance === undefined ? undefined : Math.sqrt(variance);
+  }
+
+  /** Smallest value */
+  public get min(): number | undefined {
+    return this.numbers.reduce(
+      (min: number | undefined, a) => min === undefined || a < min ? a : min,
+      undefined,
+    );
+  }
+
+  /** Largest value */
+  public get max(): number | undefined {
+    return this.numbers.reduce(
+      (max: number | undefined, a) => max === undefined || a > max ? a : max,
+      undefined,
+    );
+  }
+
+  /** Middle value */
+  public get median(): number | undefined {
+    return this.quantile(0.5);
+  }
+
+  /** Combine each number with a number, or number at same position of other
+   * series. Result is missing where either number is missing.
+   */
+  protected combine(
+    other: number | Series,
+    fn: (a: number, b: number) => number,
+  ): Series {
+    const others: Array<number | undefined> | undefined =
+      other instanceof Series ? aligned<Series>(this, other).values : undefined;
+    return new Series(
+      this.values.map((a, i) => {
+        const b = others ? others[i] : other as number;
+        return missing(a) || missing(b)
+          ? undefined
+          : fn(a as number, b as number);
+      }),
+    );
+  }
+
+  /** Sum of values and other values */
+  public add(other: number | Series): Series {
+    return this.combine(other, (a, b) => a + b);
+  }
+
+  /** Values minus other values */
+  public sub(other: number | Series): Series {
+    return this.combine(other, (a, b) => a - b);
+  }
+
+  /** Product of values and other values */
+  public mul(other: number | Series): Series {
+    return this.combine(other, (a, b) => a * b);
+  }
+
+  /** Values divided by other values */
+  public div(other: number | Series): Series {
+    return this.combine(other, (a, b) => a / b);
+  }
+
+  /** Values raised to power of other values */
+  public pow(other: number | Series): Series {
+    return this.combine(other, (a, b) => a ** b);
+  }
+
+  /** Remainder of values divided by other values */
+  public mod(other: number | Series): Series {
+    return this.combine(other, (a, b) => a % b);
+  }
+
+  /** Value at fraction q of sorted values, interpolated between neighbours */
+  public quantile(q: number): number | undefined {
+    const sorted: number[] = this.numbers.sort((a, b) => a - b);
+    if (!sorted.length) return undefined;
+    const position: number = (sorted.length - 1) * Math.min(Math.max(q, 0), 1);
+    const lower: number = Math.floor(position);
+    const upper: number = Math.ceil(position);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+  }
+}
+
+/** Series of numbers stored in a typed array.
+ * Missing values are cleared in a validity bitmap.
+ */
+export class FloatSeries extends Series {
+  private cache?: Array<number | undefined>;
+
+  constructor(
+    public readonly array: Float64Array = new Float64Array(),
+    // One bit per value, set if value is present. All present if omitted.
+    public readonly validity?: Uint8Array,
+  ) {
+    super();
+  }
+
+  /** Convert array of numbers to typed array and validity bitmap */
+  public static from(values: Array<number | undefined>): FloatSeries {
+    const array = new Float64Array(values.length);
+    const validity = new Uint8Array(Math.ceil(values.length / 8));
+    let complete = true;
+    for (let i = 0; i < values.length; i++) {
+      const value = values[i];
+      if (value === undefined) {
+        array[i] = NaN;
+        complete = false;
+      } else {
+        array[i] = value;
+        validity[i >> 3] |= 1 << (i & 7);
+      }
+    }
+    return new FloatSeries(array, complete ? undefined : validity);
+  }
+
+  /** Is value at index present */
+  public valid(index: number): boolean {
+    return this.validity === undefined ||
+      (this.validity[index >> 3] & (1 << (index & 7))) !== 0;
+  }
+
+  /** List of all values, missing values are undefined */
+  public override get values(): Array<number | undefined> {
+    if (!this.cache) {
+      this.cache = this.validity
+        ? Array.from(this.array, (v, i) => this.valid(i) ? v : undefined)
+        : Array.from(this.array);
+    }
+    return this.cache;
+  }
+
+  /** Count of elements in series */
+  public override get length(): number {
+    return this.array.length;
+  }
+
+  /** Numbers which are not missing */
+  protected override get numbers(): number[] {
+    const numbers: number[] = [];
+    for (let i = 0; i < this.array.length; i++) {
+      if (this.valid(i) && !Number.isNaN(this.array[i])) {
+        numbers.push(this.array[i]);
+      }
+    }
+    return numbers;
+  }
+
+  /** Count of values which are not missing */
+  public override get count(): number {
+    return this.numbers.length;
+  }
+
+  /** Present numbers at positions */
+  public gather(positions: number[]): number[] {
+    const numbers: number[] = [];
+    for (const i of positions) {
+      if (this.valid(i) && !Number.isNaN(this.array[i])) {
+        numbers.push(this.array[i]);
+      }
+    }
+    return numbers;
+  }
+
+  /** New series with callback applied to present values at positions.
+   * Values at other positions are missing.
+   */
+  public map(
+    callback: (n: number) => number,
+    positions: number[],
+  ): FloatSeries {
+    const source: Float64Array = this.array;
+    const array = new Float64Array(source.length).fill(NaN);
+    const validity = new Uint8Array(Math.ceil(array.length / 8));
+    const present: Uint8Array | undefined = this.validity;
+    for (const i of positions) {
+      if (!present || present[i >> 3] & (1 << (i & 7))) {
+        array[i] = callback(source[i]);
+        validity[i >> 3] |= 1 << (i & 7);
+      }
+    }
+    return new FloatSeries(array, validity);
+  }
+
+  /** Combine in typed arrays when other is a number or a typed series */
+  protected override combine(
+    other: number | Series,
+    fn: (a: number, b: number) => number,
+  ): Series {
+    if (typeof other !== "number" && !(other instanceof FloatSeries)) {
+      return super.combine(other, fn);
+    }
+    const source: Float64Array = this.array;
+    const operand: Float64Array | undefined = typeof other === "number"
+      ? undefined
+      : aligned<FloatSeries>(this, other).array;
+    const array = new Float64Array(source.length);
+    const validity = new Uint8Array(Math.ceil(array.length / 8));
+    for (let i = 0; i < source.length; i++) {
+      if (this.valid(i) && (!operand || (other as FloatSeries).valid(i))) {
+        array[i] = fn(source[i], operand ? operand[i] : other as number);
+        validity[i >> 3] |= 1 << (i & 7);
+      } else array[i] = NaN;
+    }
+    return new FloatSeries(array, validity);
+  }
+}
+
+/** Auto-generate a series from an array of unknown values.
+ * Values of mixed types are kept in an ObjectSeries.
+ */
+export function autoSeries(array: Array<unknown>): SeriesClasses {
+  const present: Array<unknown> = array.filter((v) => v != undefined);
+  if (present.length && present.every((v) => v instanceof Date)) {
+    return new DateSeries(array as Date[]);
+  }
+  const types = new Set(present.map((v) => typeof v));
+  switch (types.size === 1 ? [...types][0] : undefined) {
+    case "number":
+      return new Series(array as number[]);
+    case "string":
+      return new TextSeries(array as string[]);
+    case "boolean":
+      return new BoolSeries(array as boolean[]);
+    default:
+      return new ObjectSeries<object>(array as object[]);
+  }
+}
+
+/** A new series of same class as template */
+export function likeSeries(
+  template: SeriesClasses,
+  values: Array<unknown>,
+): SeriesClasses {
+  if (template instanceof FloatSeries) {
+    return FloatSeries.from(values as number[]);
+  }
+  if (template instanceof Series) return new Series(values as number[]);
+  if (template instanceof TextSeries) {
+    return new TextSeries(values as string[]);
+  }
+  if (template instanceof BoolSeries) {
+    return new BoolSeries(values as boolean[]);
+  }
+  if (template instanceof DateSeries) return new DateSeries(values as Date[]);
+  if (template instanceof CategorySeries) {
+    // Declared order is kept, and new values are appended as categories
+    const strings = values as Array<string | undefined>;
+    if (!template.ordered) return CategorySeries.from(strings);
+    const categories = new Set<string>(template.categories);
+    strings.forEach((v) => v !== undefined && categories.add(v));
+    return CategorySeries.from(strings, [...categories]);
+  }
+  return new ObjectSeries<object>(values as object[]);
 }
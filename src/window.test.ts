@@ -0,0 +1,60 @@
+import { assertAlmostEquals, assertEquals } from "@std/assert";
+import { Series } from "./series.ts";
+import { cumulative, difference, rolling, shift } from "./window.ts";
+
+Deno.test("Rolling windows", () => {
+  const values = [1, 2, undefined, 4, 5];
+  assertEquals(rolling(values, 2, "sum", 2), [
+    undefined,
+    3,
+    undefined,
+    undefined,
+    9,
+  ]);
+  assertEquals(rolling(values, 2, "max", 1), [1, 2, 2, 4, 5]);
+  assertEquals(rolling(values, Infinity, "mean", 1), [1, 1.5, 1.5, 7 / 3, 3]);
+  assertEquals(rolling(values, 3, (v) => v.length, 0), [1, 2, 2, 2, 2]);
+});
+
+Deno.test("Running windows match direct reduction", () => {
+  const values = Array.from(
+    { length: 50 },
+    (_, n) => n % 7 === 3 ? undefined : ((n * 37) % 11) - 5.5,
+  );
+  for (const fn of ["sum", "mean", "min", "max", "std"] as const) {
+    for (const window of [1, 4, Infinity]) {
+      const direct = rolling(values, window, (v) => {
+        const s = new Series(v);
+        return fn === "sum" ? s.sum : s[fn];
+      }, 2);
+      rolling(values, window, fn, 2).forEach((v, n) => {
+        if (direct[n] === undefined) assertEquals(v, undefined);
+        else assertAlmostEquals(v as number, direct[n] as number, 1e-9);
+      });
+    }
+  }
+});
+
+Deno.test("Cumulative", () => {
+  const values = [1, undefined, 3, NaN, 2];
+  assertEquals(cumulative(values, (t, a) => t + a), [
+    1,
+    undefined,
+    4,
+    undefined,
+    6,
+  ]);
+  assertEquals(cumulative(values, Math.max), [1, undefined, 3, undefined, 3]);
+});
+
+Deno.test("Shift and difference", () => {
+  const values = [1, 2, 4];
+  assertEquals(shift(values, 1), [undefined, 1, 2]);
+  assertEquals(shift(values, -1), [2, 4, undefined]);
+  assertEquals(difference(values, 1, (c, p) => c - p), [undefined, 1, 2]);
+  assertEquals(difference(values, 2, (c, p) => c / p - 1), [
+    undefined,
+    undefined,
+    3,
+  ]);
+});
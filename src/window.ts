@@ -0,0 +1,166 @@
+import { missing } from "./series.ts";
+
+/** A number or a missing value */
+type Value = number | undefined;
+
+/** Custom function reducing numbers in a window to one number */
+export type WindowReducer = (values: number[]) => number | undefined;
+
+/** Name of builtin window function or custom reducer */
+export type WindowFunction =
+  | "mean"
+  | "sum"
+  | "min"
+  | "max"
+  | "std"
+  | WindowReducer;
+
+/** Options for operations generating a new column */
+export type TargetOptions = {
+  /** Name of new column */
+  target?: string;
+};
+
+/** Options for window functions */
+export type WindowOptions = TargetOptions & {
+  /** Minimum count of values which are not missing, required for a result */
+  minPeriods?: number;
+};
+
+/** Sum, mean or standard deviation of windows, from running sums of values
+ * entering and leaving each window
+ */
+function moments(
+  values: Value[],
+  window: number,
+  fn: "sum" | "mean" | "std",
+  minPeriods: number,
+): Value[] {
+  // Sums are of distances from first number, for numerical stability
+  const origin: number = (values.find((v) => !missing(v)) as number) ?? 0;
+  let count = 0;
+  let s1 = 0;
+  let s2 = 0;
+  return values.map((v, n) => {
+    if (!missing(v)) {
+      const d: number = (v as number) - origin;
+      count++;
+      s1 += d;
+      s2 += d * d;
+    }
+    const leaving: Value = values[n - window];
+    if (!missing(leaving)) {
+      const d: number = (leaving as number) - origin;
+      count--;
+      s1 -= d;
+      s2 -= d * d;
+    }
+    if (count === 0) s1 = s2 = 0;
+    if (count < minPeriods) return undefined;
+    switch (fn) {
+      case "sum":
+        return count ? origin * count + s1 : 0;
+      case "mean":
+        return count ? (origin * count + s1) / count : undefined;
+      case "std":
+        return count < 2
+          ? undefined
+          : Math.sqrt(Math.max(0, (s2 - s1 * s1 / count) / (count - 1)));
+    }
+  });
+}
+
+/** Smallest or largest number of windows, from positions of candidates
+ * ordered so that first candidate is the extreme
+ */
+function extremes(
+  values: Value[],
+  window: number,
+  sign: 1 | -1,
+  minPeriods: number,
+): Value[] {
+  const candidates: number[] = [];
+  let head = 0;
+  let count = 0;
+  return values.map((v, n) => {
+    if (!missing(v)) {
+      while (
+        candidates.length > head &&
+        sign * ((values[candidates[candidates.length - 1]] as number) -
+                (v as number)) <= 0
+      ) {
+        candidates.pop();
+      }
+      candidates.push(n);
+      count++;
+    }
+    if (!missing(values[n - window])) count--;
+    while (candidates.length > head && candidates[head] <= n - window) head++;
+    return count >= minPeriods && candidates.length > head
+      ? values[candidates[head]]
+      : undefined;
+  });
+}
+
+/** Apply function to windows of values ending at each position.
+ * A window of Infinity length grows from first position.
+ */
+export function rolling(
+  values: Value[],
+  window: number,
+  fn: WindowFunction,
+  minPeriods: number,
+): Value[] {
+  switch (fn) {
+    case "sum":
+    case "mean":
+    case "std":
+      return moments(values, window, fn, minPeriods);
+    case "min":
+      return extremes(values, window, -1, minPeriods);
+    case "max":
+      return extremes(values, window, 1, minPeriods);
+  }
+  if (typeof fn !== "function") {
+    throw new Error(`Unknown window function ${fn}`);
+  }
+  return values.map((_, n) => {
+    const start: number = Math.max(0, n + 1 - window);
+    const present = values
+      .slice(start, n + 1)
+      .filter((v) => !missing(v)) as number[];
+    return present.length >= minPeriods ? fn(present) : undefined;
+  });
+}
+
+/** Accumulate values, skipping missing values */
+export function cumulative(
+  values: Value[],
+  fn: (total: number, value: number) => number,
+): Value[] {
+  let total: Value = undefined;
+  return values.map((v) => {
+    if (missing(v)) return undefined;
+    const value = v as number;
+    total = total === undefined ? value : fn(total, value);
+    return total;
+  });
+}
+
+/** Values moved by count of positions. Positive count moves forward. */
+export function shift(values: Value[], periods: number): Value[] {
+  return values.map((_, n) => values[n - periods]);
+}
+
+/** Combine each value with value count of positions before */
+export function difference(
+  values: Value[],
+  periods: number,
+  fn: (current: number, previous: number) => number,
+): Value[] {
+  const previous: Value[] = shift(values, periods);
+  return values.map((v, n) => {
+    const p: Value = previous[n];
+    return missing(v) || missing(p) ? undefined : fn(v as number, p as number);
+  });
+}
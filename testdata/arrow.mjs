@@ -0,0 +1,20 @@
+// Fixtures written by the reference implementation of Arrow:
+//   npm install apache-arrow && node testdata/arrow.mjs testdata
+import * as arrow from "apache-arrow";
+import { writeFileSync } from "node:fs";
+import process from "node:process";
+
+const table = new arrow.Table({
+  f: arrow.vectorFromArray([1.5, null, -2], new arrow.Float64()),
+  i: arrow.vectorFromArray([1, 2, null], new arrow.Int32()),
+  l: arrow.vectorFromArray([10n, null, -30n], new arrow.Int64()),
+  s: arrow.vectorFromArray(["a", null, "ünï"], new arrow.Utf8()),
+  b: arrow.vectorFromArray([true, false, null], new arrow.Bool()),
+  t: arrow.vectorFromArray(
+    [Date.UTC(2024, 0, 1), null, 0],
+    new arrow.TimestampMillisecond("UTC"),
+  ),
+});
+const dir = process.argv[2];
+writeFileSync(dir + "/table.arrows", arrow.tableToIPC(table, "stream"));
+writeFileSync(dir + "/table.arrow", arrow.tableToIPC(table, "file"));